@@ -0,0 +1,63 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LeonardoAPI } from './leonardo';
+import { LeonardoSimulator } from './simulator';
+import { BatchRunner, BatchRunnerOptions } from './batchRunner';
+
+const ITEMS = [
+    { id: 'lighthouse', params: { prompt: 'A lighthouse at dusk', num_images: 1 } },
+    { id: 'harbor', params: { prompt: 'A harbor at dawn', num_images: 1 } },
+];
+// Poll and retry without real delays.
+const FAST: BatchRunnerOptions = { retryDelayMs: 1, waitOptions: { intervalMs: 1, maxIntervalMs: 1 } };
+
+describe('BatchRunner', () => {
+    let dir: string;
+    let sim: LeonardoSimulator;
+    let api: LeonardoAPI;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'batch-'));
+        sim = new LeonardoSimulator({ pendingPolls: 0 });
+        api = new LeonardoAPI('test-key', { fetch: sim.fetch, retry: { baseDelayMs: 1, maxDelayMs: 1, jitter: 0 } });
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    const countStarts = () => sim.requests.filter(request => request.method === 'POST' && request.path === '/generations').length;
+
+    it('leaves an item that needs a manual check failed on resume unless asked to retry it', async () => {
+        const manifestPath = join(dir, 'batch.manifest.json');
+        sim.injectFailure({ status: 502, path: '/generations', method: 'POST' });
+        const first = await new BatchRunner(api, { ...FAST, concurrency: 1, manifestPath }).run(ITEMS);
+        expect(first.items[0]).toMatchObject({ id: 'lighthouse', status: 'failed', needsManualCheck: true });
+        expect(first.complete).toBe(1);
+
+        const resumed = await new BatchRunner(api, { ...FAST, manifestPath }).run(ITEMS);
+
+        expect(countStarts()).toBe(2);
+        expect(resumed.items[0]).toMatchObject({ status: 'failed', needsManualCheck: true });
+        expect(resumed).toMatchObject({ complete: 1, failed: 1, skipped: 1 });
+
+        const retried = await new BatchRunner(api, { ...FAST, manifestPath, retryManualCheck: true }).run(ITEMS);
+
+        expect(countStarts()).toBe(3);
+        expect(retried.items[0].status).toBe('complete');
+        expect(retried.items[0].needsManualCheck).toBeUndefined();
+    });
+
+    it('keeps running when the manifest cannot be written', async () => {
+        const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const manifestPath = join(dir, 'missing', 'batch.manifest.json');
+
+        const summary = await new BatchRunner(api, { ...FAST, manifestPath }).run(ITEMS);
+
+        expect(summary).toMatchObject({ complete: 2, failed: 0 });
+        expect(logged).toHaveBeenCalledWith(`Failed to save the batch manifest to ${manifestPath}:`, expect.any(Error));
+    });
+});
@@ -0,0 +1,479 @@
+// Batch image generation (Node.js only).
+// Runs a list of GenerationParams with a concurrency limit and per-item retries, and keeps a JSON manifest on disk
+// so an interrupted run can be resumed without paying for items that already finished.
+
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import {
+    LeonardoAPI,
+    GenerationParams,
+    LeonardoAPIError,
+    LeonardoAbortError,
+    LeonardoAuthError,
+    LeonardoBudgetExceededError,
+    LeonardoGenerationFailedError,
+    LeonardoInsufficientCreditsError,
+    LeonardoRateLimitError,
+    LeonardoValidationError,
+    WaitForGenerationOptions,
+    isRecord,
+    sleep
+} from './leonardo';
+import { getModelId } from './modelConfig';
+
+export interface BatchItem {
+    // Identifies the item in the manifest. Defaults to its position in the list ("item-0", "item-1", ...).
+    id?: string;
+    params: GenerationParams;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'complete' | 'failed';
+
+export interface BatchItemState {
+    id: string;
+    // Fingerprint of the params. An item whose params changed since the manifest was written is run again.
+    paramsHash: string;
+    status: BatchItemStatus;
+    // Attempts made in the current run.
+    attempts: number;
+    // Set once the generation was started, so a resumed run waits for it instead of starting it again.
+    generationId: string | null;
+    images: { id: string; url: string }[];
+    apiCreditCost: number | null;
+    // Message of the last error, kept after a successful retry for diagnosis.
+    error: string | null;
+    // Set when starting the generation failed in a way Leonardo may still have accepted (and charged for), e.g. a
+    // 5xx or dropped connection. Check the account's history before running the item again. A resumed run skips the
+    // item until this is cleared in the manifest, unless `retryManualCheck` is set.
+    needsManualCheck?: boolean;
+    updatedAt: string;
+}
+
+export interface BatchManifest {
+    version: 1;
+    createdAt: string;
+    updatedAt: string;
+    items: Record<string, BatchItemState>;
+}
+
+export interface BatchRunnerOptions {
+    // Generations in flight at once. Defaults to 2.
+    concurrency?: number;
+    // Attempts per item, including the first. Defaults to 3.
+    maxAttempts?: number;
+    // Pause before retrying a failed item. Defaults to 5s.
+    retryDelayMs?: number;
+    // Where progress is saved after every change. A run with an existing manifest resumes it.
+    manifestPath?: string;
+    // Runs items marked `needsManualCheck` again when resuming, instead of leaving them failed. Defaults to false.
+    retryManualCheck?: boolean;
+    // Passed on to waitForGeneration (interval, timeout, ...).
+    waitOptions?: Omit<WaitForGenerationOptions, 'signal'>;
+    // Called whenever an item changes status.
+    onItemUpdate?: (state: BatchItemState) => void;
+    // Stops starting new items and cancels the ones waiting. Their progress stays in the manifest for resuming.
+    signal?: AbortSignal;
+}
+
+export interface BatchSummary {
+    total: number;
+    // Items complete at the end of the run, including those skipped because they already were.
+    complete: number;
+    // Items failed at the end of the run, including those left failed because they need a manual check.
+    failed: number;
+    // Items found complete in the manifest and not run again.
+    skipped: number;
+    // Items left unfinished because the run was aborted or stopped.
+    pending: number;
+    // Credits charged for generations started in this run.
+    creditsSpent: number;
+    durationMs: number;
+    // Why the run stopped early, e.g. an invalid API key or an empty balance. Null when it ran to the end.
+    stopReason: string | null;
+    items: BatchItemState[];
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 5000;
+
+// CSV cells are strings; these fields are converted to the types GenerationParams expects.
+const NUMBER_FIELDS = [
+    'width', 'height', 'num_images', 'guidance_scale', 'num_inference_steps', 'seed', 'contrast', 'contrastRatio',
+    'init_strength', 'imagePromptWeight', 'photoRealStrength',
+];
+const BOOLEAN_FIELDS = ['alchemy', 'photoReal', 'highContrast', 'enhancePrompt'];
+
+const hashParams = (params: GenerationParams): string =>
+    createHash('sha256').update(JSON.stringify(params)).digest('hex').slice(0, 16);
+
+// Splits CSV text into rows of cells, honouring quoted cells with commas, newlines and "" escapes.
+const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+/**
+ * Reads batch items from CSV. The header row names GenerationParams fields; an optional `id` column names the items.
+ * Numeric and boolean fields are converted, JSON arrays/objects (e.g. `controlnets`) are parsed, empty cells are
+ * left out, and a `modelId` cell may also hold a model name from MODEL_CONFIG.
+ * @param text - The CSV file contents.
+ * @returns One item per data row.
+ */
+export const parseBatchCsv = (text: string): BatchItem[] => {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) {
+        return [];
+    }
+    const columns = header.map(name => name.trim());
+    return rows.map((cells, rowIndex) => {
+        const params: Record<string, unknown> = {};
+        let id: string | undefined;
+        columns.forEach((column, i) => {
+            const value = cells[i]?.trim() ?? '';
+            if (!value) return;
+            if (column === 'id') {
+                id = value;
+            } else if (NUMBER_FIELDS.includes(column)) {
+                const number = Number(value);
+                if (Number.isNaN(number)) {
+                    throw new Error(`Row ${rowIndex + 2}: ${column} "${value}" is not a number.`);
+                }
+                params[column] = number;
+            } else if (BOOLEAN_FIELDS.includes(column)) {
+                params[column] = /^(true|1|yes)$/i.test(value);
+            } else if (column === 'modelId') {
+                params[column] = getModelId(value) ?? value;
+            } else if (/^[[{]/.test(value)) {
+                params[column] = JSON.parse(value);
+            } else {
+                params[column] = value;
+            }
+        });
+        return { id, params: params as unknown as GenerationParams };
+    });
+};
+
+/**
+ * Reads batch items from JSON Lines. Each line is either `{ "id": ..., "params": {...} }` or bare GenerationParams.
+ * @param text - The JSONL file contents.
+ * @returns One item per non-empty line.
+ */
+export const parseBatchJsonl = (text: string): BatchItem[] =>
+    text.split(/\r?\n/)
+        .map((line, index) => ({ line: line.trim(), index }))
+        .filter(({ line }) => line)
+        .map(({ line, index }) => {
+            let record: unknown;
+            try {
+                record = JSON.parse(line);
+            } catch {
+                throw new Error(`Line ${index + 1} is not valid JSON.`);
+            }
+            if (!isRecord(record)) {
+                throw new Error(`Line ${index + 1} is not a JSON object.`);
+            }
+            if (isRecord(record.params)) {
+                return { id: typeof record.id === 'string' ? record.id : undefined, params: record.params as unknown as GenerationParams };
+            }
+            return { params: record as unknown as GenerationParams };
+        });
+
+/**
+ * Loads batch items from a .csv, .jsonl or .json (array) file.
+ * @param path - The file to read.
+ * @returns The items in file order.
+ */
+export const loadBatchFile = async (path: string): Promise<BatchItem[]> => {
+    const text = await readFile(path, 'utf8');
+    if (/\.csv$/i.test(path)) {
+        return parseBatchCsv(text);
+    }
+    if (/\.json$/i.test(path)) {
+        const records: unknown = JSON.parse(text);
+        if (!Array.isArray(records)) {
+            throw new Error(`${path} does not hold a JSON array of batch items.`);
+        }
+        return parseBatchJsonl(records.map(record => JSON.stringify(record)).join('\n'));
+    }
+    return parseBatchJsonl(text);
+};
+
+/**
+ * Formats a summary as a short plain-text report, one line per unfinished or failed item.
+ * @param summary - The result of BatchRunner.run.
+ * @returns The report.
+ */
+export const formatBatchSummary = (summary: BatchSummary): string => {
+    const lines = [
+        `${summary.complete}/${summary.total} complete (${summary.skipped} from a previous run), ${summary.failed} failed, `
+            + `${summary.pending} pending; ${summary.creditsSpent} credits in ${Math.round(summary.durationMs / 1000)}s.`,
+    ];
+    if (summary.stopReason) {
+        lines.push(`Stopped early: ${summary.stopReason}`);
+    }
+    summary.items
+        .filter(item => item.status !== 'complete')
+        .forEach(item => lines.push(`  ${item.id}: ${item.status}${item.error ? ` (${item.error})` : ''}`));
+    return lines.join('\n');
+};
+
+/**
+ * Runs many image generations through one LeonardoAPI client.
+ * Items are retried up to `maxAttempts` times. Starting a generation is only retried after a rate limit, since a
+ * server or network error may come after Leonardo accepted (and charged for) the request; such items fail with
+ * `needsManualCheck`. Invalid requests fail without retrying, and an authentication or credit error stops the run,
+ * since every remaining item would fail the same way.
+ *
+ * @example
+ * const runner = new BatchRunner(api, { concurrency: 3, manifestPath: 'batch.manifest.json' });
+ * const summary = await runner.run(await loadBatchFile('prompts.csv'));
+ * console.log(formatBatchSummary(summary));
+ */
+export class BatchRunner {
+    private readonly api: LeonardoAPI;
+    private readonly concurrency: number;
+    private readonly maxAttempts: number;
+    private readonly retryDelayMs: number;
+    private readonly manifestPath?: string;
+    private readonly retryManualCheck: boolean;
+    private readonly waitOptions: Omit<WaitForGenerationOptions, 'signal'>;
+    private readonly onItemUpdate?: (state: BatchItemState) => void;
+    private readonly signal?: AbortSignal;
+    private manifest: BatchManifest | null = null;
+    // Manifest writes are chained so they land in order. The chain never rejects, so one failed write does not fail
+    // every later update.
+    private saving: Promise<void> = Promise.resolve();
+    private stopReason: string | null = null;
+
+    constructor(api: LeonardoAPI, options: BatchRunnerOptions = {}) {
+        this.api = api;
+        this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+        this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+        this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+        this.manifestPath = options.manifestPath;
+        this.retryManualCheck = options.retryManualCheck ?? false;
+        this.waitOptions = options.waitOptions ?? {};
+        this.onItemUpdate = options.onItemUpdate;
+        this.signal = options.signal;
+    }
+
+    /**
+     * Runs the batch, resuming from the manifest if one exists.
+     * @param items - Batch items or bare GenerationParams. Ids must be unique.
+     * @returns A promise that resolves to the summary once every item finished or the run was stopped.
+     */
+    public async run(items: (BatchItem | GenerationParams)[]): Promise<BatchSummary> {
+        const startedAt = Date.now();
+        const batch = items.map((item, index) => {
+            const { id, params } = 'params' in item ? item : { id: undefined, params: item };
+            return { id: id ?? `item-${index}`, params };
+        });
+        const ids = new Set(batch.map(item => item.id));
+        if (ids.size !== batch.length) {
+            throw new Error('Batch item ids must be unique.');
+        }
+
+        const manifest = await this.loadManifest();
+        this.manifest = manifest;
+        this.stopReason = null;
+        let skipped = 0;
+        let creditsSpent = 0;
+        const queue: { params: GenerationParams; state: BatchItemState }[] = [];
+        batch.forEach(({ id, params }) => {
+            const paramsHash = hashParams(params);
+            const previous = manifest.items[id];
+            if (previous?.paramsHash === paramsHash && previous.status === 'complete') {
+                skipped++;
+                return;
+            }
+            if (previous?.paramsHash === paramsHash && previous.status === 'failed' && previous.needsManualCheck && !this.retryManualCheck) {
+                // Leonardo may have run (and charged for) it already; keep its state until someone has checked.
+                return;
+            }
+            manifest.items[id] = {
+                id,
+                paramsHash,
+                status: 'pending',
+                attempts: 0,
+                // A generation started by an interrupted run is picked up rather than paid for twice.
+                generationId: previous?.paramsHash === paramsHash && previous.status !== 'failed' ? previous.generationId : null,
+                images: [],
+                apiCreditCost: null,
+                error: null,
+                updatedAt: new Date().toISOString(),
+            };
+            queue.push({ params, state: manifest.items[id] });
+        });
+        await this.save();
+
+        const worker = async () => {
+            for (let next = queue.shift(); next; next = queue.shift()) {
+                if (this.signal?.aborted || this.stopReason) {
+                    return;
+                }
+                const charged = await this.runItem(next.params, next.state);
+                creditsSpent += charged;
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(this.concurrency, queue.length) }, worker));
+        await this.save();
+
+        const states = batch.map(({ id }) => manifest.items[id]);
+        return {
+            total: batch.length,
+            complete: states.filter(state => state.status === 'complete').length,
+            failed: states.filter(state => state.status === 'failed').length,
+            skipped,
+            pending: states.filter(state => state.status === 'pending' || state.status === 'running').length,
+            creditsSpent,
+            durationMs: Date.now() - startedAt,
+            stopReason: this.stopReason ?? (this.signal?.aborted ? 'The run was aborted.' : null),
+            items: states,
+        };
+    }
+
+    // Runs one item to completion or final failure. Returns the credits charged for it in this run.
+    private async runItem(params: GenerationParams, state: BatchItemState): Promise<number> {
+        let charged = 0;
+        while (true) {
+            state.attempts++;
+            await this.update(state, { status: 'running' });
+            let starting = !state.generationId;
+            try {
+                if (starting) {
+                    const response = await this.api.generateImage(params);
+                    const job = response.sdGenerationJob;
+                    if (!job?.generationId) {
+                        throw new LeonardoAPIError('Failed to get generation ID from the initial response.', { endpoint: '/generations', body: response });
+                    }
+                    charged += job.apiCreditCost ?? 0;
+                    await this.update(state, { generationId: job.generationId, apiCreditCost: job.apiCreditCost ?? null });
+                    starting = false;
+                }
+                const result = await this.api.waitForGeneration(state.generationId!, { ...this.waitOptions, signal: this.signal });
+                const images = (result.generations_by_pk?.generated_images ?? []).map(({ id, url }) => ({ id, url }));
+                await this.update(state, { status: 'complete', images });
+                return charged;
+            } catch (error) {
+                const message = (error as Error)?.message || String(error);
+                if (error instanceof LeonardoAbortError) {
+                    // Left as pending (with its generation id, if started) for the next run.
+                    await this.update(state, { status: 'pending', error: message });
+                    return charged;
+                }
+                if (error instanceof LeonardoAuthError || error instanceof LeonardoInsufficientCreditsError
+                    || (error instanceof LeonardoBudgetExceededError && error.reason !== 'per-call')) {
+                    this.stopReason = message;
+                    await this.update(state, { status: 'failed', error: message });
+                    return charged;
+                }
+                if (error instanceof LeonardoGenerationFailedError) {
+                    // The job is dead; the next attempt starts a new one.
+                    state.generationId = null;
+                }
+                // Before a generation id exists only a rate limit proves the request was not accepted.
+                const retryable = starting ? error instanceof LeonardoRateLimitError : true;
+                if (starting && !retryable && !(error instanceof LeonardoValidationError || error instanceof LeonardoBudgetExceededError)) {
+                    await this.update(state, {
+                        status: 'failed',
+                        error: `${message.replace(/\.?$/, '.')} The generation may have started anyway; check the account's history before running this item again.`,
+                        needsManualCheck: true,
+                    });
+                    return charged;
+                }
+                if (!retryable || state.attempts >= this.maxAttempts || this.signal?.aborted || this.stopReason) {
+                    await this.update(state, { status: 'failed', error: message });
+                    return charged;
+                }
+                await this.update(state, { status: 'pending', error: message });
+                await sleep(this.retryDelayMs, this.signal);
+                if (this.signal?.aborted) {
+                    return charged;
+                }
+            }
+        }
+    }
+
+    private async update(state: BatchItemState, changes: Partial<BatchItemState>): Promise<void> {
+        Object.assign(state, changes, { updatedAt: new Date().toISOString() });
+        if (changes.status) {
+            this.onItemUpdate?.({ ...state });
+        }
+        await this.save();
+    }
+
+    private async loadManifest(): Promise<BatchManifest> {
+        const now = new Date().toISOString();
+        const empty: BatchManifest = { version: 1, createdAt: now, updatedAt: now, items: {} };
+        if (!this.manifestPath) {
+            return empty;
+        }
+        let text: string;
+        try {
+            text = await readFile(this.manifestPath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return empty;
+            }
+            throw error;
+        }
+        const manifest = JSON.parse(text) as BatchManifest;
+        if (manifest?.version !== 1 || typeof manifest.items !== 'object') {
+            throw new Error(`${this.manifestPath} is not a batch manifest.`);
+        }
+        return manifest;
+    }
+
+    // Writes to a temporary file first, so an interruption mid-write never leaves a truncated manifest.
+    private save(): Promise<void> {
+        const path = this.manifestPath;
+        const manifest = this.manifest;
+        if (!path || !manifest) {
+            return this.saving;
+        }
+        manifest.updatedAt = new Date().toISOString();
+        const data = JSON.stringify(manifest, null, 2);
+        this.saving = this.saving.then(async () => {
+            await writeFile(`${path}.tmp`, data);
+            await rename(`${path}.tmp`, path);
+        }).catch(error => {
+            // The next save writes the whole manifest again, so the run goes on.
+            console.error(`Failed to save the batch manifest to ${path}:`, error);
+        });
+        return this.saving;
+    }
+}
@@ -0,0 +1,248 @@
+// Portable generation recipes.
+// A recipe records everything needed to run a generation again: the model by its MODEL_CONFIG name, the request with
+// its seed, the images the request referred to and what came back. Replaying re-uploads local files where given.
+
+import {
+    LeonardoAPI,
+    LeonardoAPIError,
+    GenerationParams,
+    GenerationRecord,
+    GenerationResult,
+    WaitForGenerationOptions,
+    isRecord
+} from './leonardo';
+import { InitImageSource } from './imageSource';
+import { getModelConfig, getModelId, getModelNameById } from './modelConfig';
+
+export type RecipeImageRole = 'guidance' | 'context' | 'init';
+
+// An image the request referred to, and how it was used.
+export interface RecipeImageReference {
+    role: RecipeImageRole;
+    // The id as sent: an init image id, or a generated image id for `init` images of kind 'generated'.
+    id: string;
+    kind: 'uploaded' | 'generated';
+    // The name of the local file it was uploaded from, when known, so it can be matched up again on replay.
+    fileName: string | null;
+    // Guidance images: the model's guidance type (e.g. 'Style Reference') and its strengthType or weight.
+    guidanceType?: string | null;
+    preprocessorId?: number;
+    strengthType?: string;
+    weight?: number;
+    // Context images, e.g. 'STYLE_ONLY'.
+    context?: string;
+    // Init images.
+    strength?: number | null;
+}
+
+export interface GenerationRecipe {
+    version: 1;
+    createdAt: string;
+    // The MODEL_CONFIG (or registry) name. Replays look the id up by name, so a model re-released under a new id still works.
+    modelName: string | null;
+    // The request as sent, with the seed Leonardo used filled in.
+    params: GenerationParams;
+    images: RecipeImageReference[];
+    // The prompt Leonardo generated from when prompt enhancement rewrote it.
+    enhancedPrompt: string | null;
+    generationId: string;
+    imageIds: string[];
+}
+
+export interface CreateRecipeOptions {
+    // Needed for models that share an id (e.g. FLUX.1 Kontext and Kontext Pro). Defaults to the name for params.modelId.
+    modelName?: string;
+    // File names of uploaded images, by init image id.
+    fileNames?: Record<string, string>;
+}
+
+export interface ReplayRecipeOptions {
+    // Local files to upload in place of the recorded images, by recorded image id or file name.
+    // Images without a file are sent with their recorded id, which works while they still exist on the account.
+    files?: Record<string, InitImageSource>;
+    // Sends the recorded enhanced prompt with prompt enhancement off, so the prompt is not rewritten differently.
+    // Defaults to true.
+    useEnhancedPrompt?: boolean;
+    // Passed on to waitForGeneration.
+    waitOptions?: WaitForGenerationOptions;
+}
+
+export interface RecipeReplay {
+    // The request that was sent.
+    params: GenerationParams;
+    result: GenerationResult;
+    // A recipe of the replay itself.
+    recipe: GenerationRecipe;
+}
+
+// The first guidance type of the model that uses a preprocessor, for a readable record of the guidance.
+const findGuidanceType = (modelName: string | null, preprocessorId: number): string | null => {
+    const guidance = modelName ? getModelConfig(modelName)?.supports.guidance ?? {} : {};
+    return Object.keys(guidance).find(type => guidance[type].preprocessorId === preprocessorId) ?? null;
+};
+
+const collectImages = (modelName: string | null, params: GenerationParams, fileNames: Record<string, string>): RecipeImageReference[] => {
+    const fileName = (id: string) => fileNames[id] ?? null;
+    const images: RecipeImageReference[] = (params.controlnets ?? []).map(controlnet => ({
+        role: 'guidance',
+        id: controlnet.initImageId,
+        kind: 'uploaded',
+        fileName: fileName(controlnet.initImageId),
+        guidanceType: findGuidanceType(modelName, controlnet.preprocessorId),
+        preprocessorId: controlnet.preprocessorId,
+        ...('weight' in controlnet ? { weight: controlnet.weight } : { strengthType: controlnet.strengthType }),
+    }));
+    (params.contextImages ?? []).forEach(image => images.push({
+        role: 'context', id: image.init_image_id, kind: 'uploaded', fileName: fileName(image.init_image_id), context: image.context,
+    }));
+    if (params.init_image_id) {
+        images.push({ role: 'init', id: params.init_image_id, kind: 'uploaded', fileName: fileName(params.init_image_id), strength: params.init_strength ?? null });
+    } else if (params.init_generation_image_id) {
+        images.push({ role: 'init', id: params.init_generation_image_id, kind: 'generated', fileName: null, strength: params.init_strength ?? null });
+    }
+    return images;
+};
+
+/**
+ * Records a completed generation as a recipe.
+ * @param params - The params sent to POST /generations.
+ * @param record - The completed generation, e.g. `generations_by_pk` from waitForGeneration.
+ * @param options - The model name and the file names of uploaded images.
+ * @returns The recipe, ready for exportRecipe.
+ */
+export const createRecipe = (params: GenerationParams, record: GenerationRecord, options: CreateRecipeOptions = {}): GenerationRecipe => {
+    const modelName = options.modelName ?? (params.modelId ? getModelNameById(params.modelId) : null);
+    const seed = params.seed ?? record.seed ?? undefined;
+    const enhanced = params.enhancePrompt && record.prompt && record.prompt !== params.prompt ? record.prompt : null;
+    return {
+        version: 1,
+        createdAt: new Date().toISOString(),
+        modelName,
+        params: seed !== undefined ? { ...params, seed } : { ...params },
+        images: collectImages(modelName, params, options.fileNames ?? {}),
+        enhancedPrompt: enhanced,
+        generationId: record.id,
+        imageIds: (record.generated_images ?? []).map(image => image.id),
+    };
+};
+
+/**
+ * Serializes a recipe for sharing.
+ */
+export const exportRecipe = (recipe: GenerationRecipe): string => JSON.stringify(recipe, null, 2);
+
+/**
+ * Reads a recipe written by exportRecipe.
+ * @throws Error when the text is not an exported recipe.
+ */
+export const parseRecipe = (json: string): GenerationRecipe => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isRecipe(parsed)) {
+        throw new Error('The file is not an exported generation recipe.');
+    }
+    return parsed;
+};
+
+const isNullableString = (value: unknown): boolean => value === null || value === undefined || typeof value === 'string';
+
+const isRecipeImage = (value: unknown): value is RecipeImageReference =>
+    isRecord(value)
+    && (value.role === 'guidance' || value.role === 'context' || value.role === 'init')
+    && typeof value.id === 'string'
+    && (value.kind === 'uploaded' || value.kind === 'generated')
+    && isNullableString(value.fileName);
+
+// Checks the parts of a recipe that replays read: the model name, the request, the images and the enhanced prompt.
+const isRecipe = (value: unknown): value is GenerationRecipe =>
+    isRecord(value)
+    && value.version === 1
+    && isNullableString(value.modelName)
+    && isRecord(value.params)
+    && typeof value.params.prompt === 'string'
+    && Array.isArray(value.images)
+    && value.images.every(isRecipeImage)
+    && isNullableString(value.enhancedPrompt);
+
+/**
+ * Lists the recorded uploads that replayRecipe would send by their old id, because no file is given for them.
+ * @param recipe - The recipe to replay.
+ * @param files - The files that will be passed to replayRecipe.
+ */
+export const getMissingRecipeFiles = (recipe: GenerationRecipe, files: Record<string, InitImageSource> = {}): RecipeImageReference[] =>
+    recipe.images.filter(image => image.kind === 'uploaded' && !files[image.id] && !(image.fileName && files[image.fileName]));
+
+/**
+ * Builds the request a replay would send, uploading the given local files in place of the recorded images.
+ * @param api - The client to upload with.
+ * @param recipe - The recipe to replay.
+ * @param options - Replacement files and whether to reuse the enhanced prompt.
+ * @returns The params, with the model id looked up by name and new init image ids where files were uploaded.
+ */
+export const prepareRecipeReplay = async (api: LeonardoAPI, recipe: GenerationRecipe, options: ReplayRecipeOptions = {}): Promise<{ params: GenerationParams; fileNames: Record<string, string> }> => {
+    const files = options.files ?? {};
+    const newIds: Record<string, string> = {};
+    const fileNames: Record<string, string> = {};
+    for (const image of recipe.images) {
+        const key = files[image.id] ? image.id : image.fileName;
+        if (image.kind !== 'uploaded' || newIds[image.id] || !key || !files[key]) continue;
+        newIds[image.id] = await api.uploadInitImage(files[key]);
+        if (image.fileName) {
+            fileNames[newIds[image.id]] = image.fileName;
+        }
+    }
+    recipe.images
+        .filter(image => image.kind === 'uploaded' && !newIds[image.id] && image.fileName)
+        .forEach(image => fileNames[image.id] = image.fileName!);
+    const id = (imageId: string) => newIds[imageId] ?? imageId;
+
+    const params: GenerationParams = { ...recipe.params };
+    const modelId = recipe.modelName ? getModelId(recipe.modelName) : null;
+    if (modelId) {
+        params.modelId = modelId;
+    }
+    if (params.controlnets) {
+        params.controlnets = params.controlnets.map(controlnet => ({ ...controlnet, initImageId: id(controlnet.initImageId) }));
+    }
+    if (params.contextImages) {
+        params.contextImages = params.contextImages.map(image => ({ ...image, init_image_id: id(image.init_image_id) }));
+    }
+    if (params.init_image_id) {
+        params.init_image_id = id(params.init_image_id);
+    }
+    if (recipe.enhancedPrompt && (options.useEnhancedPrompt ?? true)) {
+        params.prompt = recipe.enhancedPrompt;
+        params.enhancePrompt = false;
+        delete params.enhancePromptInstructions;
+    }
+    return { params, fileNames };
+};
+
+/**
+ * Runs a recipe again and waits for the result. With the recorded seed and model, the images match the original
+ * as far as Leonardo's generation is deterministic.
+ * @param api - The client to generate with.
+ * @param recipe - A recipe from createRecipe or parseRecipe.
+ * @param options - Replacement files, prompt handling and wait options.
+ * @returns The params sent, the finished generation and a recipe of the replay.
+ * @throws LeonardoValidationError when the params no longer fit the model, and the errors of generateImage and waitForGeneration.
+ */
+export const replayRecipe = async (api: LeonardoAPI, recipe: GenerationRecipe, options: ReplayRecipeOptions = {}): Promise<RecipeReplay> => {
+    const { params, fileNames } = await prepareRecipeReplay(api, recipe, options);
+    const response = await api.generateImage(params, { validate: true });
+    const generationId = response.sdGenerationJob?.generationId;
+    if (!generationId) {
+        throw new LeonardoAPIError('Failed to get generation ID from the initial response.', { endpoint: '/generations', body: response });
+    }
+    const result = await api.waitForGeneration(generationId, options.waitOptions);
+    const record = result.generations_by_pk ?? { id: generationId, status: 'COMPLETE' as const };
+    return {
+        params,
+        result,
+        recipe: createRecipe(params, record, { modelName: recipe.modelName ?? undefined, fileNames }),
+    };
+};
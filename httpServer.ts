@@ -0,0 +1,104 @@
+// HTTP plumbing shared by the Node.js servers in this project (proxy.ts and webhook.ts).
+
+import { createServer, IncomingMessage, RequestListener, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { timingSafeEqual } from 'node:crypto';
+
+/**
+ * Reads a request body as UTF-8 text.
+ * @param req - The incoming request.
+ * @param maxBytes - Largest accepted body. Bigger bodies are drained, so a 413 response can still be written.
+ * @returns A promise that resolves to the body, or rejects when it exceeds maxBytes or the request fails.
+ */
+export const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                req.removeAllListeners('data');
+                req.resume();
+                reject(new Error(`Body exceeds ${maxBytes} bytes`));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+};
+
+// Sends a JSON response, unless a response was already started.
+export const respondJson = (res: ServerResponse, status: number, body: object): void => {
+    if (res.headersSent) {
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+// Compares an Authorization header ("Bearer <secret>" or the bare secret) with the expected secret in constant time.
+export const hasBearerToken = (header: string | undefined, secret: string): boolean => {
+    if (!header) {
+        return false;
+    }
+    const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(secret);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+/**
+ * Runs a request handler as a standalone HTTP server, for the `listen()` and `close()` methods of the servers
+ * in this project.
+ */
+export class StandaloneServer {
+    private readonly name: string;
+    private readonly handler: RequestListener;
+    private server: Server | null = null;
+
+    /**
+     * @param name - Used in errors, e.g. 'Proxy server'.
+     * @param handler - The request handler to serve.
+     */
+    constructor(name: string, handler: RequestListener) {
+        this.name = name;
+        this.handler = handler;
+    }
+
+    /**
+     * Starts the server.
+     * @param port - The port to listen on. Pass 0 to pick a free port.
+     * @param host - The interface to bind to. Defaults to all interfaces.
+     * @returns A promise that resolves to the bound port.
+     */
+    public listen(port: number, host?: string): Promise<number> {
+        if (this.server) {
+            return Promise.reject(new Error(`${this.name} is already listening.`));
+        }
+        const server = createServer(this.handler);
+        this.server = server;
+        return new Promise((resolve, reject) => {
+            server.once('error', error => {
+                this.server = null;
+                reject(error);
+            });
+            server.listen(port, host, () => {
+                server.removeAllListeners('error');
+                resolve((server.address() as AddressInfo).port);
+            });
+        });
+    }
+
+    /**
+     * Stops the server. Does nothing when it is not running.
+     */
+    public close(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+        if (!server) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+}
@@ -0,0 +1,223 @@
+// Downloads every image of a finished generation: into a directory in Node, or as a single zip archive in the browser.
+// Images come straight from Leonardo's CDN; the generation's settings are saved next to them as metadata.json.
+
+import {
+    FetchFunction,
+    GenerationRecord,
+    GeneratedImageDetails,
+    LeonardoAPIError,
+    LeonardoAbortError,
+    LeonardoNetworkError,
+    getGeneratedImages
+} from './leonardo';
+import { detectImageFormat } from './imageSource';
+
+export interface DownloadGenerationOptions {
+    // Defaults to the global fetch, e.g. the simulator's fetch in tests.
+    fetch?: FetchFunction;
+    // Cancels the downloads still running with LeonardoAbortError.
+    signal?: AbortSignal;
+    // File name for an image, without the extension. Defaults to "<generation id>-<n>", counting from 1.
+    fileName?: (image: GeneratedImageDetails) => string;
+    // Adds metadata.json with the generation's settings and every image's details. Defaults to true.
+    includeMetadata?: boolean;
+}
+
+export interface DownloadedImage {
+    image: GeneratedImageDetails;
+    // Includes the extension, taken from the image's magic bytes (or the URL for unrecognized formats).
+    fileName: string;
+    bytes: Uint8Array;
+}
+
+export interface ZipEntry {
+    // Path inside the archive, using forward slashes.
+    name: string;
+    data: Uint8Array;
+}
+
+export const METADATA_FILE_NAME = 'metadata.json';
+
+const defaultFileName = (image: GeneratedImageDetails) => `${image.generationId}-${image.index + 1}`;
+
+const extensionFromUrl = (url: string): string => {
+    const match = /\.([a-z0-9]{2,5})(?:[?#]|$)/i.exec(url);
+    return match ? match[1].toLowerCase() : 'bin';
+};
+
+const downloadImage = async (image: GeneratedImageDetails, options: DownloadGenerationOptions): Promise<Uint8Array> => {
+    const fetchImage = options.fetch ?? ((url: string, init?: RequestInit) => fetch(url, init));
+    const endpoint = image.url;
+    let response: Response;
+    try {
+        response = await fetchImage(image.url, { signal: options.signal });
+    } catch (err: any) {
+        if (options.signal?.aborted) {
+            throw new LeonardoAbortError('Downloading the generation was cancelled.', { endpoint, generationId: image.generationId });
+        }
+        throw new LeonardoNetworkError(`Could not download image ${image.id}: ${err?.message || err}`, { endpoint });
+    }
+    if (!response.ok) {
+        throw new LeonardoAPIError(`Downloading image ${image.id} failed with status ${response.status}.`, { endpoint, status: response.status });
+    }
+    return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Downloads the images of a generation into memory.
+ * @param record - A completed generation, e.g. `generations_by_pk` from waitForGeneration.
+ * @param options - Fetch implementation, cancellation and file naming.
+ * @returns One entry per image, in the generation's order.
+ * @throws LeonardoNetworkError, LeonardoAPIError (a non-2xx CDN response) or LeonardoAbortError.
+ */
+export const fetchGenerationImages = async (record: GenerationRecord, options: DownloadGenerationOptions = {}): Promise<DownloadedImage[]> => {
+    const fileName = options.fileName ?? defaultFileName;
+    return Promise.all(getGeneratedImages(record).map(async image => {
+        const bytes = await downloadImage(image, options);
+        const extension = detectImageFormat(bytes)?.extension ?? extensionFromUrl(image.url);
+        return { image, fileName: `${fileName(image)}.${extension}`, bytes };
+    }));
+};
+
+// The generation without its image list, and each image's details under the name it was saved as.
+const createMetadata = (record: GenerationRecord, images: DownloadedImage[]): Uint8Array => {
+    const { generated_images, ...generation } = record;
+    const metadata = {
+        generation,
+        images: images.map(({ image: { generation: _, ...details }, fileName }) => ({ fileName, ...details })),
+    };
+    return new TextEncoder().encode(JSON.stringify(metadata, null, 2));
+};
+
+/**
+ * Saves every image of a generation into a directory (Node.js only). The directory is created if needed.
+ * @param record - A completed generation.
+ * @param directory - Where to write the files. Existing files with the same names are overwritten.
+ * @param options - Fetch implementation, cancellation, file naming and whether to write metadata.json.
+ * @returns The paths of the files written, metadata.json last.
+ */
+export const saveGenerationImages = async (record: GenerationRecord, directory: string, options: DownloadGenerationOptions = {}): Promise<string[]> => {
+    // Kept out of static imports so the module still bundles for the browser.
+    const fsModule = 'node:fs/promises';
+    const pathModule = 'node:path';
+    const { mkdir, writeFile } = await import(/* @vite-ignore */ fsModule);
+    const { join } = await import(/* @vite-ignore */ pathModule);
+
+    const images = await fetchGenerationImages(record, options);
+    await mkdir(directory, { recursive: true });
+    const files = images.map(({ fileName, bytes }) => ({ path: join(directory, fileName), bytes }));
+    if (options.includeMetadata ?? true) {
+        files.push({ path: join(directory, METADATA_FILE_NAME), bytes: createMetadata(record, images) });
+    }
+    for (const file of files) {
+        await writeFile(file.path, file.bytes);
+    }
+    return files.map(file => file.path);
+};
+
+/**
+ * Downloads every image of a generation into one zip archive, e.g. to offer a single download in the browser.
+ * @param record - A completed generation.
+ * @param options - Fetch implementation, cancellation, file naming and whether to include metadata.json.
+ * @returns The archive, with the images stored uncompressed (they are compressed already).
+ */
+export const zipGenerationImages = async (record: GenerationRecord, options: DownloadGenerationOptions = {}): Promise<Blob> => {
+    const images = await fetchGenerationImages(record, options);
+    const entries: ZipEntry[] = images.map(({ fileName, bytes }) => ({ name: fileName, data: bytes }));
+    if (options.includeMetadata ?? true) {
+        entries.push({ name: METADATA_FILE_NAME, data: createMetadata(record, images) });
+    }
+    return new Blob([createZipArchive(entries)], { type: 'application/zip' });
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Packs files into a zip archive without compression (the "stored" method), which every unzip tool reads.
+ * Archives are limited to the classic zip format: under 4 GB and 65535 entries.
+ * @param entries - The files to include.
+ * @param modified - Modification time recorded for every entry. Defaults to now.
+ * @returns The archive's bytes.
+ */
+export const createZipArchive = (entries: ZipEntry[], modified: Date = new Date()): Uint8Array => {
+    const encoder = new TextEncoder();
+    // MS-DOS date and time, in local time with two-second resolution.
+    const dosTime = (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2);
+    const dosDate = ((Math.max(modified.getFullYear(), 1980) - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+    // Bit 11: file names are UTF-8.
+    const flags = 0x0800;
+
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+    entries.forEach(({ name, data }) => {
+        const nameBytes = encoder.encode(name);
+        const crc = crc32(data);
+
+        const local = new Uint8Array(30 + nameBytes.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint16(4, 20, true);
+        localView.setUint16(6, flags, true);
+        localView.setUint16(8, 0, true);
+        localView.setUint16(10, dosTime, true);
+        localView.setUint16(12, dosDate, true);
+        localView.setUint32(14, crc, true);
+        localView.setUint32(18, data.length, true);
+        localView.setUint32(22, data.length, true);
+        localView.setUint16(26, nameBytes.length, true);
+        localView.setUint16(28, 0, true);
+        local.set(nameBytes, 30);
+
+        const central = new Uint8Array(46 + nameBytes.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014b50, true);
+        centralView.setUint16(4, 20, true);
+        centralView.setUint16(6, 20, true);
+        centralView.setUint16(8, flags, true);
+        centralView.setUint16(10, 0, true);
+        centralView.setUint16(12, dosTime, true);
+        centralView.setUint16(14, dosDate, true);
+        centralView.setUint32(16, crc, true);
+        centralView.setUint32(20, data.length, true);
+        centralView.setUint32(24, data.length, true);
+        centralView.setUint16(28, nameBytes.length, true);
+        centralView.setUint32(42, offset, true);
+        central.set(nameBytes, 46);
+
+        localParts.push(local, data);
+        centralParts.push(central);
+        offset += local.length + data.length;
+    });
+
+    const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    const archive = new Uint8Array(offset + centralSize + end.length);
+    let position = 0;
+    [...localParts, ...centralParts, end].forEach(part => {
+        archive.set(part, position);
+        position += part.length;
+    });
+    return archive;
+};
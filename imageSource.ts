@@ -0,0 +1,134 @@
+// Reads init images from whatever the runtime offers (browser Blobs, Node buffers, streams or file paths)
+// and identifies their format from the file's magic bytes rather than its name.
+
+// Anything uploadInitImage accepts. Strings are file paths and only work in Node.
+export type InitImageSource =
+    | Blob
+    | ArrayBuffer
+    | Uint8Array // includes Node's Buffer
+    | ReadableStream<Uint8Array>
+    | AsyncIterable<Uint8Array | string> // e.g. a Node Readable from fs.createReadStream
+    | string;
+
+export interface ImageInfo {
+    // The extension Leonardo's /init-image endpoint expects.
+    extension: 'png' | 'jpg' | 'webp';
+    mimeType: 'image/png' | 'image/jpeg' | 'image/webp';
+    // Null when the header does not state the dimensions (e.g. a truncated file).
+    width: number | null;
+    height: number | null;
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+// Walks the JPEG segments up to the first start-of-frame marker, which holds the dimensions.
+const readJpegSize = (bytes: Uint8Array, view: DataView): { width: number; height: number } | null => {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) {
+            return null;
+        }
+        const marker = bytes[offset + 1];
+        // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC), which share the range
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+};
+
+const readWebpSize = (bytes: Uint8Array, view: DataView): { width: number; height: number } | null => {
+    const chunk = ascii(bytes, 12, 16);
+    if (chunk === 'VP8X' && bytes.length >= 30) {
+        // 24-bit little-endian "canvas size minus one"
+        const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+        const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+        return { width, height };
+    }
+    if (chunk === 'VP8 ' && bytes.length >= 30) {
+        return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === 'VP8L' && bytes.length >= 25) {
+        const bits = view.getUint32(21, true);
+        return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+    }
+    return null;
+};
+
+/**
+ * Identifies a PNG, JPEG or WebP image from its magic bytes and reads its dimensions from the header.
+ * @param bytes - The start of the file (the whole file works too).
+ * @returns The format and dimensions, or null for anything that is not a supported image.
+ */
+export const detectImageFormat = (bytes: Uint8Array): ImageInfo | null => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+        const hasHeader = bytes.length >= 24 && ascii(bytes, 12, 16) === 'IHDR';
+        return {
+            extension: 'png',
+            mimeType: 'image/png',
+            width: hasHeader ? view.getUint32(16) : null,
+            height: hasHeader ? view.getUint32(20) : null,
+        };
+    }
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+        const size = readJpegSize(bytes, view);
+        return { extension: 'jpg', mimeType: 'image/jpeg', width: size?.width ?? null, height: size?.height ?? null };
+    }
+    if (bytes.length >= 16 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') {
+        const size = readWebpSize(bytes, view);
+        return { extension: 'webp', mimeType: 'image/webp', width: size?.width ?? null, height: size?.height ?? null };
+    }
+    return null;
+};
+
+const concatChunks = (chunks: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return result;
+};
+
+/**
+ * Reads an init image source into memory.
+ * @param source - A Blob/File, ArrayBuffer, Uint8Array/Buffer, stream or (in Node) a file path.
+ * @returns The complete file contents.
+ */
+export const readImageSource = async (source: InitImageSource): Promise<Uint8Array> => {
+    if (typeof source === 'string') {
+        // Kept out of static imports so the module still bundles for the browser.
+        const fsModule = 'node:fs/promises';
+        const { readFile } = await import(/* @vite-ignore */ fsModule);
+        return new Uint8Array(await readFile(source));
+    }
+    if (source instanceof Uint8Array) {
+        return source;
+    }
+    if (source instanceof ArrayBuffer) {
+        return new Uint8Array(source);
+    }
+    if (typeof Blob !== 'undefined' && source instanceof Blob) {
+        return new Uint8Array(await source.arrayBuffer());
+    }
+
+    const chunks: Uint8Array[] = [];
+    if (typeof (source as ReadableStream<Uint8Array>).getReader === 'function') {
+        const reader = (source as ReadableStream<Uint8Array>).getReader();
+        for (let next = await reader.read(); !next.done; next = await reader.read()) {
+            chunks.push(next.value);
+        }
+    } else {
+        for await (const chunk of source as AsyncIterable<Uint8Array | string>) {
+            chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+        }
+    }
+    return concatChunks(chunks);
+};
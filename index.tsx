@@ -1,21 +1,119 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { LeonardoAPI, GenerationResult, GenerationParams, ControlNetParams } from './leonardo';
+import {
+    LeonardoAPI,
+    PROMPT_IMPROVE_MAX_LENGTH,
+    GenerationResult,
+    GenerationRecord,
+    GeneratedImageDetails,
+    getGeneratedImages,
+    JobStatus,
+    TextToVideoParams,
+    GenerationParams,
+    LeonardoAPIError,
+    LeonardoAuthError,
+    LeonardoRateLimitError,
+    LeonardoInsufficientCreditsError,
+    LeonardoValidationError,
+    LeonardoNotFoundError,
+    LeonardoServerError,
+    LeonardoNetworkError,
+    LeonardoGenerationFailedError,
+    LeonardoTimeoutError,
+    LeonardoAbortError,
+    LeonardoBudgetExceededError,
+    LeonardoUploadError,
+    registerCustomModel,
+    DEFAULT_INIT_STRENGTH,
+    ImageReference,
+    AccountBalance,
+    ParamValidationResult,
+    RetryEvent
+} from './leonardo';
+import { GenerationRequestBuilder, toPresetStyle } from './requestBuilder';
+import { CatalogReport, syncModelCatalog, formatCatalogReport } from './modelCatalog';
+import { zipGenerationImages } from './imageDownload';
+import { GenerationRecipe, createRecipe, exportRecipe, parseRecipe, replayRecipe, getMissingRecipeFiles } from './generationRecipe';
+import { ComparisonSettings, ModelComparison, planComparison, runComparison, exportComparison, parseComparison } from './modelComparison';
 import {
     getModelConfig,
     getModelsForNodeType,
+    getModelNameById,
     ASPECT_RATIO_DIMENSIONS,
     IMAGE_GEN_STYLES,
     CONTRAST_VALUES,
+    VIDEO_RESOLUTIONS,
+    VIDEO_STYLE_CATEGORIES,
+    VideoStyleCategory,
+    getVideoStylesByCategory,
+    resolveVideoStyleIds,
+    validateVideoStyles,
+    ELEMENTS,
+    getElementsForModel,
+    getMaxImages,
+    GUIDANCE_STRENGTH_TYPES,
     ModelConfigEntry
 } from './modelConfig';
 
-const GUIDANCE_STRENGTH_TYPES: Record<string, string[]> = {
-    'Style Reference': ['Low', 'Mid', 'High', 'Ultra', 'Max'],
-    'Character Reference': ['Low', 'Mid', 'High'],
-    'Content Reference': ['Low', 'Mid', 'High'],
+// Validation fields shown next to their form control; issues on any other field are listed above the Generate button.
+const INLINE_ISSUE_FIELDS = ['prompt', 'width', 'height', 'alchemy', 'photoReal', 'presetStyle', 'contrast', 'enhancePrompt', 'enhancePromptInstructions', 'elements', 'controlnets', 'contextImages', 'num_images', 'init_image_id', 'init_generation_image_id', 'init_strength'];
+
+const RETRY_REASON_LABELS: Record<RetryEvent['reason'], string> = {
+    'rate-limit': 'Rate limited',
+    'server-error': 'Leonardo server error',
+    'network-error': 'Network error',
+};
+
+// Turns a thrown error into a message tailored to the kind of failure.
+const describeError = (err: any): string => {
+    if (err instanceof LeonardoAuthError) {
+        return 'Authentication failed. Check that your API key is correct and has an active API subscription.';
+    }
+    if (err instanceof LeonardoRateLimitError) {
+        const wait = err.retryAfter !== null ? ` Try again in ${Math.ceil(err.retryAfter)}s.` : ' Wait a moment and try again.';
+        return `Rate limited by Leonardo.${wait}`;
+    }
+    if (err instanceof LeonardoInsufficientCreditsError) {
+        return 'Not enough API credits for this request. Top up your API balance or choose cheaper settings.';
+    }
+    if (err instanceof LeonardoValidationError) {
+        return `The request was rejected as invalid: ${err.message}`;
+    }
+    if (err instanceof LeonardoNotFoundError) {
+        return `The requested resource was not found (${err.endpoint}).`;
+    }
+    if (err instanceof LeonardoServerError) {
+        return `Leonardo's servers returned an error (status ${err.status}). Please try again later.`;
+    }
+    if (err instanceof LeonardoNetworkError) {
+        return 'Could not reach Leonardo. Check your connection; in the browser this can also be a CORS block.';
+    }
+    if (err instanceof LeonardoGenerationFailedError) {
+        return 'Leonardo reported that the generation failed. Try a different prompt or settings.';
+    }
+    if (err instanceof LeonardoTimeoutError) {
+        return 'Timed out waiting for the generation to complete. It may still finish; check your Leonardo history.';
+    }
+    if (err instanceof LeonardoAbortError) {
+        return 'Waiting for the generation was cancelled.';
+    }
+    if (err instanceof LeonardoUploadError) {
+        return `The image could not be stored: ${err.message}`;
+    }
+    if (err instanceof LeonardoBudgetExceededError) {
+        return `Not sent to protect your credits: ${err.message}`;
+    }
+    if (err instanceof LeonardoAPIError) {
+        return err.message;
+    }
+    return err?.message || 'An unknown error occurred.';
 };
 
+interface SelectedElement {
+    name: string;
+    weight: number;
+}
+
 interface GuidanceImage {
     // A temporary ID for React keys
     tempId: string;
@@ -32,17 +130,79 @@ interface GuidanceImage {
     contextType?: string;
 }
 
+type GenerationMode = 'image' | 'img2img' | 'video';
+
+// What was sent for the current result, kept so it can be exported as a recipe.
+interface SentImageRequest {
+    params: GenerationParams;
+    modelName: string;
+    // File names of the uploaded images, by init image id.
+    fileNames: Record<string, string>;
+}
+
+// Where the starting image of an image-to-image generation comes from.
+type InitImageSourceKind = 'upload' | 'generated';
+
+interface InitImageUpload {
+    file: File;
+    previewUrl: string;
+    // The init image id, once uploaded
+    id?: string;
+    status: 'uploading' | 'ready' | 'error';
+    error?: string;
+}
+
+const HISTORY_PAGE_SIZE = 20;
+const HISTORY_STATUSES: JobStatus[] = ['COMPLETE', 'PENDING', 'FAILED'];
+
+// Maps a preset style from the API (e.g. 'DYNAMIC') back to its name in IMAGE_GEN_STYLES.
+const fromPresetStyle = (presetStyle: string): string =>
+    IMAGE_GEN_STYLES.find(name => toPresetStyle(name) === presetStyle) || 'None';
+
+// The aspect ratio whose dimensions match a past generation exactly, if the model offers it.
+const findAspectRatio = (ratios: string[], width?: number | null, height?: number | null): string | null =>
+    ratios.find(ratio => ASPECT_RATIO_DIMENSIONS[ratio]?.width === width && ASPECT_RATIO_DIMENSIONS[ratio]?.height === height) || null;
+
+// 'direct' calls Leonardo with the key entered here; 'proxy' calls a LeonardoProxyServer that holds the key.
+type ConnectionMode = 'direct' | 'proxy';
+
+// Resolves a (possibly relative) proxy URL against the page, or undefined when it is empty or malformed.
+const resolveProxyUrl = (url: string): string | undefined => {
+    if (!url.trim()) return undefined;
+    try {
+        return new URL(url.trim(), window.location.href).href;
+    } catch {
+        return undefined;
+    }
+};
+
 const App: React.FC = () => {
     const imageModels = getModelsForNodeType('image-generation');
+    const videoModels = getModelsForNodeType('text-to-video');
+    const imageToImageModels = imageModels.filter(name => getModelConfig(name)?.supports.imageToImage);
 
+    const [connectionMode, setConnectionMode] = useState<ConnectionMode>('direct');
+    const [proxyUrl, setProxyUrl] = useState<string>('/api/leonardo');
+    const [proxyToken, setProxyToken] = useState<string>('');
     const [apiKey, setApiKey] = useState<string>('');
+    const [balance, setBalance] = useState<AccountBalance | null>(null);
+    const [balanceError, setBalanceError] = useState<string | null>(null);
+    const [maxCostPerCall, setMaxCostPerCall] = useState<string>('');
+    const [costEstimate, setCostEstimate] = useState<number | null>(null);
+    const [catalogReport, setCatalogReport] = useState<CatalogReport | null>(null);
+    const [catalogSyncing, setCatalogSyncing] = useState<boolean>(false);
+    const [catalogError, setCatalogError] = useState<string | null>(null);
+    const [customModelNames, setCustomModelNames] = useState<string[] | null>(null);
+    const [generationMode, setGenerationMode] = useState<GenerationMode>('image');
     const [prompt, setPrompt] = useState<string>('A majestic lion in a futuristic city, photorealistic');
     const [modelName, setModelName] = useState<string>(imageModels[0]);
+    const modeModels = generationMode === 'video' ? videoModels : (generationMode === 'img2img' ? imageToImageModels : imageModels);
     
     const [selectedConfig, setSelectedConfig] = useState<ModelConfigEntry | null>(getModelConfig(modelName));
 
     // --- Generation parameters state ---
     const [aspectRatio, setAspectRatio] = useState<string>('1:1');
+    const [numImages, setNumImages] = useState<number>(1);
     const [width, setWidth] = useState<number>(1024);
     const [height, setHeight] = useState<number>(1024);
     const [style, setStyle] = useState<string>('None');
@@ -50,35 +210,88 @@ const App: React.FC = () => {
     const [alchemy, setAlchemy] = useState<boolean>(false);
     const [photoReal, setPhotoReal] = useState<boolean>(false);
     const [enhancePrompt, setEnhancePrompt] = useState<boolean>(false);
+    const [enhanceInstructions, setEnhanceInstructions] = useState<string>('');
+
+    // --- Prompt review state ---
+    const [promptInstructions, setPromptInstructions] = useState<string>('');
+    const [promptSuggestion, setPromptSuggestion] = useState<string | null>(null);
+    const [improvingPrompt, setImprovingPrompt] = useState<boolean>(false);
     const [guidanceImages, setGuidanceImages] = useState<GuidanceImage[]>([]);
+    const [selectedElements, setSelectedElements] = useState<SelectedElement[]>([]);
+    const [initSourceKind, setInitSourceKind] = useState<InitImageSourceKind>('upload');
+    const [initUpload, setInitUpload] = useState<InitImageUpload | null>(null);
+    const [initGeneratedImageId, setInitGeneratedImageId] = useState<string>('');
+    const [initStrength, setInitStrength] = useState<number>(DEFAULT_INIT_STRENGTH);
+
+    // --- Video parameters state ---
+    const [negativePrompt, setNegativePrompt] = useState<string>('');
+    const [videoResolution, setVideoResolution] = useState<string>(VIDEO_RESOLUTIONS[0]);
+    const [frameInterpolation, setFrameInterpolation] = useState<boolean>(false);
+    const [videoStyles, setVideoStyles] = useState<string[]>([]);
     
     // --- App status state ---
     const [loading, setLoading] = useState<boolean>(false);
     const [status, setStatus] = useState<string>('Idle. Enter your API Key and a prompt to begin.');
     const [error, setError] = useState<string | null>(null);
-    const [resultImageUrl, setResultImageUrl] = useState<string | null>(null);
+    const [resultRecord, setResultRecord] = useState<GenerationRecord | null>(null);
+    const [downloadingZip, setDownloadingZip] = useState<boolean>(false);
+    const [sentRequest, setSentRequest] = useState<SentImageRequest | null>(null);
+    const [importedRecipe, setImportedRecipe] = useState<GenerationRecipe | null>(null);
+    const [recipeFiles, setRecipeFiles] = useState<File[]>([]);
+    const [recipeError, setRecipeError] = useState<string | null>(null);
+    const [replaying, setReplaying] = useState<boolean>(false);
+    const [motionStrength, setMotionStrength] = useState<number>(5);
+    const [animating, setAnimating] = useState<boolean>(false);
+    const [animationUrl, setAnimationUrl] = useState<string | null>(null);
+    const [resultVideoUrl, setResultVideoUrl] = useState<string | null>(null);
     const [enhancedPrompt, setEnhancedPrompt] = useState<string | null>(null);
     const [debugRequest, setDebugRequest] = useState<string | null>(null);
     const [debugResponse, setDebugResponse] = useState<string | null>(null);
 
+    // --- History state ---
+    const [historyItems, setHistoryItems] = useState<GenerationRecord[]>([]);
+    const [historyHasMore, setHistoryHasMore] = useState<boolean>(false);
+    const [historyLoading, setHistoryLoading] = useState<boolean>(false);
+    const [historyError, setHistoryError] = useState<string | null>(null);
+    const [historyModelFilter, setHistoryModelFilter] = useState<string>('');
+    const [historyStatusFilter, setHistoryStatusFilter] = useState<string>('');
+    const [selectedHistory, setSelectedHistory] = useState<GenerationRecord | null>(null);
+    const [pendingRestore, setPendingRestore] = useState<GenerationRecord | null>(null);
+
+    // --- Model comparison state ---
+    const [compareModelNames, setCompareModelNames] = useState<string[]>([]);
+    const [compareSeed, setCompareSeed] = useState<string>('');
+    const [comparison, setComparison] = useState<ModelComparison | null>(null);
+    const [comparing, setComparing] = useState<boolean>(false);
+    const [comparisonError, setComparisonError] = useState<string | null>(null);
+    // Guidance images removed while still uploading; their init image is deleted once the upload finishes.
+    const removedUploads = useRef(new Set<string>());
+
     // Effect to update configuration when model changes
     useEffect(() => {
         const newConfig = getModelConfig(modelName);
         if (newConfig) {
             setSelectedConfig(newConfig);
             setGuidanceImages([]); // Clear guidance images when model changes
+            setSelectedElements([]); // Elements are tied to the model's base model
             const defaults = newConfig.defaults || {};
             
             const alchemySupported = newConfig.supports.alchemy || false;
             setAlchemy(alchemySupported);
             setPhotoReal(alchemySupported && (defaults.photoReal || false));
             setEnhancePrompt(defaults.promptEnhance || false);
+            setNumImages(Math.min(defaults.numImages || 1, getMaxImages(modelName)));
+            setInitStrength(defaults.strength ?? DEFAULT_INIT_STRENGTH);
 
             setStyle(defaults.style || 'None');
             if (newConfig.supports.contrast) {
                 setContrast(defaults.contrast || 1.0);
             }
 
+            setVideoResolution(defaults.resolution || newConfig.supports.resolutions?.[0] || VIDEO_RESOLUTIONS[0]);
+            setFrameInterpolation(defaults.frameInterpolation || false);
+            setVideoStyles([]); // Styles are model-specific
+
             const supportedRatios = newConfig.supports.aspectRatios || ['1:1'];
             const defaultRatio = supportedRatios.includes('1:1') ? '1:1' : supportedRatios[0];
             setAspectRatio(defaultRatio);
@@ -98,28 +311,106 @@ const App: React.FC = () => {
             setPhotoReal(false);
         }
     }, [alchemy]);
+
+    // Applies settings restored from the history. Declared after the model effect, so it runs after the form
+    // has been reset to the new model's defaults and its values win.
+    useEffect(() => {
+        if (!pendingRestore) return;
+        const record = pendingRestore;
+        const config = getModelConfig(modelName);
+        setPendingRestore(null);
+
+        if (record.prompt) setPrompt(record.prompt);
+        const restoredAlchemy = !!config?.supports.alchemy && !!record.alchemy;
+        setAlchemy(restoredAlchemy);
+        setPhotoReal(restoredAlchemy && !!record.photoReal);
+        if (record.presetStyle) setStyle(fromPresetStyle(record.presetStyle));
+        if (config?.supports.contrast && record.contrast) setContrast(record.contrast);
+
+        const ratio = findAspectRatio(config?.supports.aspectRatios || [], record.imageWidth, record.imageHeight);
+        if (ratio) setAspectRatio(ratio);
+        setStatus(ratio || !record.imageWidth
+            ? 'Settings restored from history.'
+            : `Settings restored from history, except the size ${record.imageWidth}x${record.imageHeight}, which is not one of the model's aspect ratios.`);
+    }, [pendingRestore]);
     
-    const pollForResult = useCallback(async (api: LeonardoAPI, generationId: string): Promise<GenerationResult> => {
-        let attempts = 0;
-        const maxAttempts = 30; 
-        
-        while (attempts < maxAttempts) {
-            setStatus(`Polling for result... (Attempt ${attempts + 1})`);
-            const response = await api.getGenerationById(generationId);
-            setDebugResponse(`Polling Response:\n${JSON.stringify(response, null, 2)}`);
-
-            const generation = response.generations_by_pk;
-            if (generation?.status === 'COMPLETE') {
-                return response;
-            } else if (generation?.status === 'FAILED') {
-                throw new Error('Generation failed.');
-            }
-            
-            await new Promise(resolve => setTimeout(resolve, 10000));
-            attempts++;
+    const isProxy = connectionMode === 'proxy';
+    // In proxy mode the Leonardo key is never sent; the proxy adds its own. Its optional access token takes the key's place.
+    const clientKey = isProxy ? proxyToken : apiKey;
+    const baseUrl = isProxy ? resolveProxyUrl(proxyUrl) : undefined;
+    const isConfigured = isProxy ? baseUrl !== undefined : apiKey !== '';
+
+    // Creates an API client whose retries are reported on the status line.
+    // Jobs the remaining balance (or the optional per-generation cap) cannot cover are refused before sending.
+    const createApi = useCallback(() => new LeonardoAPI(clientKey, {
+        baseUrl,
+        onRetry: ({ reason, delayMs, attempt, maxAttempts }) => {
+            setStatus(`${RETRY_REASON_LABELS[reason]}, retrying in ${Math.ceil(delayMs / 1000)}s... (retry ${attempt} of ${maxAttempts - 1})`);
+        },
+        budget: {
+            checkBalance: true,
+            maxCostPerCall: maxCostPerCall.trim() ? Number(maxCostPerCall) : undefined,
+        },
+    }), [clientKey, baseUrl, maxCostPerCall]);
+
+    const refreshBalance = useCallback(async () => {
+        if (!isConfigured) {
+            setBalance(null);
+            return;
         }
+        try {
+            setBalance(await new LeonardoAPI(clientKey, { baseUrl }).getAccountBalance());
+            setBalanceError(null);
+        } catch (err: any) {
+            setBalance(null);
+            setBalanceError(describeError(err));
+        }
+    }, [isConfigured, clientKey, baseUrl]);
+
+    // Load the balance once the key (or proxy URL) has stopped changing.
+    useEffect(() => {
+        const timer = setTimeout(refreshBalance, 600);
+        return () => clearTimeout(timer);
+    }, [refreshBalance]);
 
-        throw new Error('Polling timed out.');
+    // Registers the account's trained custom models; they join the model dropdown on the next render.
+    const registerAccountCustomModels = useCallback(async (api: LeonardoAPI, userId?: string) => {
+        const customModels = await api.listCustomModels(userId);
+        setCustomModelNames(customModels.map(registerCustomModel).filter((name): name is string => name !== null));
+    }, []);
+
+    // Offer the trained custom models as soon as the account is known, without waiting for a catalog sync.
+    const accountUserId = balance?.userId;
+    useEffect(() => {
+        if (!accountUserId) return;
+        registerAccountCustomModels(new LeonardoAPI(clientKey, { baseUrl }), accountUserId)
+            .catch(err => setCatalogError(describeError(err)));
+    }, [accountUserId, registerAccountCustomModels]);
+
+    // Checks MODEL_CONFIG against Leonardo's model list and registers the account's trained custom models.
+    // Models registered this way join the model dropdown on the next render.
+    const handleSyncCatalog = async () => {
+        setCatalogSyncing(true);
+        setCatalogError(null);
+        try {
+            const api = createApi();
+            setCatalogReport(await syncModelCatalog(api));
+            await registerAccountCustomModels(api, balance?.userId);
+        } catch (err: any) {
+            setCatalogError(describeError(err));
+        } finally {
+            setCatalogSyncing(false);
+        }
+    };
+
+    const pollForResult = useCallback((api: LeonardoAPI, generationId: string): Promise<GenerationResult> => {
+        setStatus('Waiting for result...');
+        return api.waitForGeneration(generationId, {
+            onProgress: (response, attempt) => {
+                setStatus(`Polling for result... (Attempt ${attempt})`);
+                setDebugResponse(`Polling Response:\n${JSON.stringify(response, null, 2)}`);
+            },
+        });
     }, []);
 
     const handleImageUpload = async (file: File) => {
@@ -143,25 +434,15 @@ const App: React.FC = () => {
         setGuidanceImages(prev => [...prev, newImage]);
         
         try {
-            if (!apiKey) throw new Error('API Key is required to upload images.');
-            const api = new LeonardoAPI(apiKey);
-            const extension = file.name.split('.').pop();
-            if (!extension) throw new Error('Could not determine file extension.');
-
-            // Standard Presigned URL Upload Method
+            if (!isConfigured) throw new Error('An API Key or proxy URL is required to upload images.');
+            const api = createApi();
             setStatus('Uploading image...');
-            console.log('Attempting presigned URL upload...');
-            const uploadUrlResponse = await api.getInitImageUploadUrl(extension);
-            const { id, fields: fieldsStr, url } = uploadUrlResponse.uploadInitImage;
-            const fields = JSON.parse(fieldsStr);
-            await api.uploadImageToS3(url, fields, file);
-            
-            console.log('Presigned URL upload successful (optimistic).');
-            setStatus('Image upload successful.');
-
-            if (!id) {
-                throw new Error('Could not retrieve image ID after upload.');
+            const id = await api.uploadInitImage(file);
+            if (removedUploads.current.delete(tempId)) {
+                await deleteUploadedImage(id);
+                return;
             }
+            setStatus('Image upload successful.');
 
             setGuidanceImages(prev => prev.map(img => 
                 img.tempId === tempId ? { ...img, status: 'ready', id } : img
@@ -169,7 +450,7 @@ const App: React.FC = () => {
         } catch (err: any) {
             console.error('Upload failed:', err);
             setGuidanceImages(prev => prev.map(img => 
-                img.tempId === tempId ? { ...img, status: 'error', error: err.message || 'Upload failed' } : img
+                img.tempId === tempId ? { ...img, status: 'error', error: describeError(err) } : img
             ));
             setStatus('Image upload failed.');
         }
@@ -182,8 +463,25 @@ const App: React.FC = () => {
         }
     };
 
+    // Deletes a removed upload from the account, so it does not linger as an unused init image.
+    const deleteUploadedImage = async (id: string, label = 'Guidance image') => {
+        try {
+            await createApi().deleteInitImage(id);
+            setStatus(`${label} removed and deleted from Leonardo.`);
+        } catch (err: any) {
+            console.error('Deleting init image failed:', err);
+            setStatus(`${label} removed, but deleting it from Leonardo failed: ${describeError(err)}`);
+        }
+    };
+
     const removeGuidanceImage = (tempId: string) => {
+        const image = guidanceImages.find(img => img.tempId === tempId);
         setGuidanceImages(prev => prev.filter(img => img.tempId !== tempId));
+        if (image?.id) {
+            deleteUploadedImage(image.id);
+        } else if (image?.status === 'uploading') {
+            removedUploads.current.add(tempId);
+        }
     };
 
     const updateGuidanceImage = (tempId: string, updates: Partial<GuidanceImage>) => {
@@ -200,11 +498,246 @@ const App: React.FC = () => {
         ));
     };
 
+    // Uploads the starting image for image-to-image, replacing (and deleting) the previous one.
+    const handleInitImageUpload = async (file: File) => {
+        const previewUrl = URL.createObjectURL(file);
+        removeInitUpload();
+        setInitUpload({ file, previewUrl, status: 'uploading' });
+        try {
+            if (!isConfigured) throw new Error('An API Key or proxy URL is required to upload images.');
+            setStatus('Uploading starting image...');
+            const id = await createApi().uploadInitImage(file);
+            if (removedUploads.current.delete(previewUrl)) {
+                await deleteUploadedImage(id, 'Starting image');
+                return;
+            }
+            setStatus('Starting image upload successful.');
+            setInitUpload(current => current?.previewUrl === previewUrl ? { ...current, status: 'ready', id } : current);
+        } catch (err: any) {
+            console.error('Upload failed:', err);
+            setInitUpload(current => current?.previewUrl === previewUrl ? { ...current, status: 'error', error: describeError(err) } : current);
+            setStatus('Image upload failed.');
+        }
+    };
+
+    const removeInitUpload = () => {
+        if (initUpload?.id) {
+            deleteUploadedImage(initUpload.id, 'Starting image');
+        } else if (initUpload?.status === 'uploading') {
+            removedUploads.current.add(initUpload.previewUrl);
+        }
+        setInitUpload(null);
+    };
+
+    // The starting image for image-to-image, or null until one is ready.
+    const getInitImage = (): ImageReference | null => {
+        if (initSourceKind === 'upload') {
+            return initUpload?.status === 'ready' && initUpload.id ? { kind: 'uploaded', id: initUpload.id } : null;
+        }
+        return initGeneratedImageId.trim() ? { kind: 'generated', id: initGeneratedImageId.trim() } : null;
+    };
+
+    // Asks Leonardo for an improved prompt and holds it for review instead of applying it directly.
+    const handleImprovePrompt = async () => {
+        setImprovingPrompt(true);
+        setError(null);
+        setPromptSuggestion(null);
+        try {
+            const api = createApi();
+            setStatus(promptInstructions.trim() ? 'Editing prompt with AI...' : 'Improving prompt...');
+            const response = await api.improvePrompt({ prompt, promptInstructions });
+            const suggestion = response.promptGeneration?.prompt;
+            if (!suggestion) {
+                throw new Error('No improved prompt was returned.');
+            }
+            setPromptSuggestion(suggestion);
+            const cost = response.promptGeneration?.apiCreditCost;
+            setStatus(`Prompt suggestion ready${cost !== undefined ? ` (${cost} credits)` : ''}. Accept, edit or reject it below.`);
+        } catch (err: any) {
+            setError(describeError(err));
+            setStatus('Error occurred.');
+            console.error(err);
+        } finally {
+            setImprovingPrompt(false);
+        }
+    };
+
+    const acceptPromptSuggestion = () => {
+        if (promptSuggestion) {
+            setPrompt(promptSuggestion);
+        }
+        setPromptSuggestion(null);
+    };
+
+    const addElement = (name: string) => {
+        if (!name || !ELEMENTS[name]) return;
+        setSelectedElements(prev => prev.some(el => el.name === name) ? prev : [...prev, { name, weight: ELEMENTS[name].defaultWeight }]);
+    };
+
+    // Keeps the current model when the new mode offers it.
+    const handleModeChange = (mode: GenerationMode) => {
+        const models = mode === 'video' ? videoModels : (mode === 'img2img' ? imageToImageModels : imageModels);
+        setGenerationMode(mode);
+        if (!models.includes(modelName)) {
+            setModelName(models[0]);
+        }
+    };
+
+    // Switches to image-to-image with a generated image as the starting image.
+    const useResultAsInitImage = (imageId: string) => {
+        setInitSourceKind('generated');
+        setInitGeneratedImageId(imageId);
+        handleModeChange('img2img');
+        setStatus('The selected result is now the starting image.');
+    };
+
+    // Maps the form onto a request builder, which drops settings the model does not support.
+    const createImageRequest = (): GenerationRequestBuilder => {
+        const builder = new GenerationRequestBuilder(modelName)
+            .prompt(prompt)
+            .dimensions(width, height)
+            .imageCount(numImages)
+            .enhancePrompt(enhancePrompt, enhanceInstructions)
+            .alchemy(alchemy)
+            .photoReal(photoReal);
+        if (alchemy) {
+            builder.style(style);
+        }
+        if (selectedConfig?.supports.contrast) {
+            builder.contrast(contrast);
+        }
+        selectedElements.forEach(({ name, weight }) => builder.element(name, weight));
+        guidanceImages
+            .filter(img => img.status === 'ready' && img.id)
+            .forEach(img => {
+                if (selectedConfig?.supports.contextGuidance) {
+                    builder.contextImage(img.id!, img.contextType!);
+                } else {
+                    const usesWeight = selectedConfig?.supports.guidance?.[img.guidanceType]?.usesWeight;
+                    builder.guidanceImage(img.id!, img.guidanceType, usesWeight ? img.weight : img.strengthType);
+                }
+            });
+        const initImage = generationMode === 'img2img' ? getInitImage() : null;
+        if (initImage) {
+            builder.initImage(initImage, initStrength);
+        }
+        return builder;
+    };
+
+    const buildVideoParams = (): TextToVideoParams => {
+        const params: TextToVideoParams = {
+            prompt,
+            model: modelName,
+            resolution: videoResolution,
+        };
+        if (negativePrompt.trim()) {
+            params.negativePrompt = negativePrompt.trim();
+        }
+        if (videoStyles.length > 0) {
+            params.styleIds = resolveVideoStyleIds(videoStyles);
+        }
+        if (selectedConfig?.supports.frameInterpolation) {
+            params.frameInterpolation = frameInterpolation;
+        }
+        if (selectedConfig?.supports.promptEnhance) {
+            params.promptEnhance = enhancePrompt;
+        }
+        return params;
+    };
+
+    // Re-estimate the cost whenever a price-relevant setting changes (debounced, since each estimate is an API call).
+    useEffect(() => {
+        if (!isConfigured || !selectedConfig) {
+            setCostEstimate(null);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const estimate = await createApi().estimateCost(generationMode === 'video'
+                    ? { kind: 'text-to-video', params: buildVideoParams() }
+                    : { kind: 'image', params: createImageRequest().build() });
+                if (!cancelled) setCostEstimate(estimate.cost);
+            } catch (err) {
+                if (!cancelled) setCostEstimate(null);
+            }
+        }, 800);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isConfigured, createApi, selectedConfig, generationMode, modelName, width, height, alchemy, photoReal, numImages, videoResolution, guidanceImages, selectedElements, initSourceKind, initUpload, initGeneratedImageId]);
+
+    const runVideoGeneration = async (api: LeonardoAPI) => {
+        const params = buildVideoParams();
+
+        setStatus('Sending video generation request...');
+        setDebugRequest(JSON.stringify(params, null, 2));
+        const initialResponse = await api.generateTextToVideo(params);
+
+        const generationId = initialResponse.motionVideoGenerationJob?.generationId;
+        if (!generationId) {
+            throw new Error('Failed to get generation ID from the initial response.');
+        }
+        setDebugResponse(`Initial Response:\n${JSON.stringify(initialResponse, null, 2)}`);
+
+        const finalResult = await pollForResult(api, generationId);
+        const videoUrl = finalResult.generations_by_pk?.generated_images?.[0]?.motionMP4URL;
+        if (!videoUrl) {
+            throw new Error('Generation completed, but no video URL was found.');
+        }
+        setResultVideoUrl(videoUrl);
+        setStatus('Video Generation Complete!');
+    };
+
+    // Replaces the selection within a single-choice category, or toggles a style in a multi-choice one.
+    const selectVideoStyle = (category: VideoStyleCategory, styleName: string, selected: boolean) => {
+        const categoryStyles = getVideoStylesByCategory(modelName)[category];
+        const singleChoice = VIDEO_STYLE_CATEGORIES[category].maxSelections === 1;
+        setVideoStyles(prev => {
+            const others = singleChoice ? prev.filter(name => !categoryStyles.includes(name)) : prev.filter(name => name !== styleName);
+            return selected && styleName ? [...others, styleName] : others;
+        });
+    };
+
+    const handleAnimate = async (imageId: string) => {
+        setAnimating(true);
+        setError(null);
+        setAnimationUrl(null);
+        try {
+            const api = createApi();
+            setStatus('Sending animation request...');
+            const initialResponse = await api.generateImageToVideo({
+                image: { kind: 'generated', id: imageId },
+                motionStrength,
+            });
+            const generationId = initialResponse.motionSvdGenerationJob?.generationId;
+            if (!generationId) {
+                throw new Error('Failed to get generation ID from the animation response.');
+            }
+            setDebugResponse(`Animation Response:\n${JSON.stringify(initialResponse, null, 2)}`);
+
+            const finalResult = await pollForResult(api, generationId);
+            const videoUrl = finalResult.generations_by_pk?.generated_images?.[0]?.motionMP4URL;
+            if (!videoUrl) {
+                throw new Error('Animation completed, but no video URL was found.');
+            }
+            setAnimationUrl(videoUrl);
+            setStatus('Animation Complete!');
+        } catch (err: any) {
+            setError(describeError(err));
+            setStatus('Error occurred.');
+            console.error(err);
+        } finally {
+            setAnimating(false);
+            refreshBalance();
+        }
+    };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!apiKey) {
-            setError('API Key is required.');
+        if (!isConfigured) {
+            setError(isProxy ? 'Proxy URL is required.' : 'API Key is required.');
             return;
         }
         if (!selectedConfig) {
@@ -214,79 +747,33 @@ const App: React.FC = () => {
 
         setLoading(true);
         setError(null);
-        setResultImageUrl(null);
+        setResultRecord(null);
+        setSentRequest(null);
+        setAnimationUrl(null);
+        setResultVideoUrl(null);
         setEnhancedPrompt(null);
         setDebugRequest(null);
         setDebugResponse(null);
         setStatus('Initializing generation...');
 
         try {
-            const api = new LeonardoAPI(apiKey);
-            
-            const params: GenerationParams = {
-                prompt, modelId: selectedConfig.id, width, height, num_images: 1,
-            };
+            const api = createApi();
 
-            if (selectedConfig.supports.promptEnhance) {
-                params.enhancePrompt = enhancePrompt;
-            }
-
-            if (selectedConfig.supports.alchemy) {
-                params.alchemy = alchemy;
-                if (alchemy) {
-                    params.photoReal = photoReal;
-                    if (style && style !== 'None') {
-                        params.presetStyle = style.toUpperCase().replace(/\s/g, '_');
-                    }
-                }
-            }
-            if (selectedConfig.supports.contrast) {
-                params.contrast = contrast;
+            if (generationMode === 'video') {
+                await runVideoGeneration(api);
+                return;
             }
             
-            if (selectedConfig.supports.contextGuidance && guidanceImages.length > 0) {
-                const readyImages = guidanceImages.filter(img => img.status === 'ready' && img.id);
-                if (readyImages.length > 0) {
-                    params.contextImages = readyImages.map(img => ({
-                        init_image_id: img.id!,
-                        context: img.contextType!,
-                    }));
-                }
-            } else if (selectedConfig.supports.guidance && guidanceImages.length > 0) {
-                const readyImages = guidanceImages.filter(img => img.status === 'ready' && img.id);
-                if (readyImages.length > 0) {
-                    params.controlnets = readyImages.map((img): ControlNetParams => {
-                        const guidanceConfig = selectedConfig.supports.guidance?.[img.guidanceType];
-                        if (!guidanceConfig) {
-                            throw new Error(`Invalid guidance type "${img.guidanceType}" for this model.`);
-                        }
-                        const { preprocessorId, usesWeight } = guidanceConfig;
-                        
-                        const baseControlNet = {
-                            initImageId: img.id!,
-                            initImageType: 'UPLOADED' as const,
-                            preprocessorId,
-                        };
-
-                        if (usesWeight) {
-                            return {
-                                ...baseControlNet,
-                                weight: img.weight,
-                            };
-                        } else {
-                            return {
-                                ...baseControlNet,
-                                strengthType: img.strengthType,
-                            };
-                        }
-                    });
-                }
+            const params = createImageRequest().build();
+            const fileNames: Record<string, string> = {};
+            guidanceImages.filter(img => img.id).forEach(img => fileNames[img.id!] = img.file.name);
+            if (initUpload?.id) {
+                fileNames[initUpload.id] = initUpload.file.name;
             }
 
-
             setStatus('Sending generation request...');
             setDebugRequest(JSON.stringify(params, null, 2));
-            const initialResponse = await api.generateImage(params);
+            const initialResponse = await api.generateImage(params, { validate: true });
 
             const generationId = initialResponse.sdGenerationJob?.generationId;
             if (!generationId) {
@@ -295,12 +782,13 @@ const App: React.FC = () => {
             setDebugResponse(`Initial Response:\n${JSON.stringify(initialResponse, null, 2)}`);
             
             const finalResult = await pollForResult(api, generationId);
-            const imageUrl = finalResult.generations_by_pk?.generated_images?.[0]?.url;
-            const returnedPrompt = finalResult.generations_by_pk?.prompt;
-            
-            if (imageUrl) {
-                setResultImageUrl(imageUrl);
-                setStatus('Generation Complete!');
+            const record = finalResult.generations_by_pk;
+            const returnedPrompt = record?.prompt;
+
+            if (record?.generated_images?.length) {
+                setResultRecord(record);
+                setSentRequest({ params, modelName, fileNames });
+                setStatus(`Generation Complete! ${record.generated_images.length} image${record.generated_images.length === 1 ? '' : 's'}.`);
                 if (enhancePrompt && returnedPrompt && returnedPrompt !== prompt) {
                     setEnhancedPrompt(returnedPrompt);
                 }
@@ -309,18 +797,230 @@ const App: React.FC = () => {
             }
 
         } catch (err: any) {
-            const errorString = err.message || 'An unknown error occurred.';
-            setError(errorString);
-            setDebugResponse(`Error:\n${JSON.stringify(err, null, 2)}`);
+            setError(describeError(err));
+            setDebugResponse(`Error:\n${JSON.stringify(err instanceof LeonardoAPIError ? { name: err.name, message: err.message, status: err.status, endpoint: err.endpoint, requestId: err.requestId, body: err.body } : err, null, 2)}`);
             setStatus('Error occurred.');
             console.error(err);
         } finally {
             setLoading(false);
+            refreshBalance();
+        }
+    };
+
+    // Loads the first page of the history, or the next one when `reset` is false.
+    const loadHistory = async (reset: boolean) => {
+        setHistoryLoading(true);
+        setHistoryError(null);
+        try {
+            const page = await createApi().listGenerations({
+                userId: balance?.userId,
+                offset: reset ? 0 : historyItems.length,
+                limit: HISTORY_PAGE_SIZE,
+            });
+            setHistoryItems(prev => reset ? page : [...prev, ...page]);
+            setHistoryHasMore(page.length === HISTORY_PAGE_SIZE);
+            if (reset) setSelectedHistory(null);
+        } catch (err: any) {
+            setHistoryError(describeError(err));
+        } finally {
+            setHistoryLoading(false);
+        }
+    };
+
+    // Shows a generation right away and fills in the full details once they arrive.
+    const openHistoryItem = async (item: GenerationRecord) => {
+        setSelectedHistory(item);
+        try {
+            const result = await createApi().getGenerationById(item.id);
+            if (result.generations_by_pk) {
+                setSelectedHistory(current => current?.id === item.id ? result.generations_by_pk! : current);
+            }
+        } catch (err: any) {
+            setHistoryError(describeError(err));
+        }
+    };
+
+    const restoreFromHistory = (record: GenerationRecord) => {
+        const historyModel = record.modelId ? getModelNameById(record.modelId) : null;
+        if (!historyModel || !imageModels.includes(historyModel)) {
+            if (record.prompt) setPrompt(record.prompt);
+            setStatus(`Only the prompt was restored: model ${record.modelId || '(unknown)'} is not in the image model catalog.`);
+            return;
+        }
+        setGenerationMode('image');
+        setModelName(historyModel);
+        setPendingRestore(record);
+    };
+
+    // Downloads every image of the current result, with its settings, as one zip file.
+    const downloadResultZip = async () => {
+        if (!resultRecord) return;
+        setDownloadingZip(true);
+        try {
+            const url = URL.createObjectURL(await zipGenerationImages(resultRecord));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `generation-${resultRecord.id}.zip`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err: any) {
+            setError(describeError(err));
+        } finally {
+            setDownloadingZip(false);
+        }
+    };
+
+    // Saves what produced the current result (model, params with seed, images, ids) as a shareable recipe file.
+    const downloadRecipe = () => {
+        if (!resultRecord || !sentRequest) return;
+        const recipe = createRecipe(sentRequest.params, resultRecord, { modelName: sentRequest.modelName, fileNames: sentRequest.fileNames });
+        const url = URL.createObjectURL(new Blob([exportRecipe(recipe)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `recipe-${resultRecord.id}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const openRecipeFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setImportedRecipe(parseRecipe(await file.text()));
+            setRecipeFiles([]);
+            setRecipeError(null);
+        } catch (err: any) {
+            setRecipeError(describeError(err));
+        }
+    };
+
+    // Runs the imported recipe again. Chosen files are matched to the recorded images by file name and uploaded anew.
+    const handleReplayRecipe = async () => {
+        if (!importedRecipe) return;
+        setReplaying(true);
+        setRecipeError(null);
+        setError(null);
+        setResultRecord(null);
+        setSentRequest(null);
+        setAnimationUrl(null);
+        setResultVideoUrl(null);
+        setEnhancedPrompt(null);
+        setStatus('Replaying recipe...');
+        try {
+            const files = Object.fromEntries(recipeFiles.map(file => [file.name, file]));
+            const replay = await replayRecipe(createApi(), importedRecipe, {
+                files,
+                waitOptions: {
+                    onProgress: (response, attempt) => setStatus(`Polling for result... (Attempt ${attempt})`),
+                },
+            });
+            setDebugRequest(JSON.stringify(replay.params, null, 2));
+            setResultRecord(replay.result.generations_by_pk ?? null);
+            setSentRequest({ params: replay.params, modelName: replay.recipe.modelName ?? importedRecipe.modelName ?? '', fileNames: Object.fromEntries(replay.recipe.images.filter(image => image.fileName).map(image => [image.id, image.fileName!])) });
+            setStatus('Recipe replayed.');
+        } catch (err: any) {
+            setRecipeError(describeError(err));
+            setStatus('Error occurred.');
+            console.error(err);
+        } finally {
+            setReplaying(false);
+            refreshBalance();
+        }
+    };
+
+    const toggleCompareModel = (name: string, selected: boolean) => {
+        setCompareModelNames(prev => selected ? [...prev.filter(n => n !== name), name] : prev.filter(n => n !== name));
+    };
+
+    // Sends the form's prompt, aspect ratio and settings to every chosen model, with one seed shared by all of them.
+    // Settings the current model does not have are left to each model's defaults.
+    const handleCompare = async () => {
+        const alchemyOn = !!selectedConfig?.supports.alchemy && alchemy;
+        const settings: ComparisonSettings = {
+            prompt,
+            aspectRatio,
+            seed: compareSeed.trim() ? Number(compareSeed) : undefined,
+            alchemy: selectedConfig?.supports.alchemy ? alchemy : undefined,
+            photoReal: alchemyOn ? photoReal : undefined,
+            style: alchemyOn ? style : undefined,
+            contrast: selectedConfig?.supports.contrast ? contrast : undefined,
+            enhancePrompt: selectedConfig?.supports.promptEnhance ? enhancePrompt : undefined,
+        };
+        const plan = planComparison(compareModelNames, settings);
+        setComparison(plan);
+        setCompareSeed(String(plan.settings.seed));
+        setComparisonError(null);
+        setComparing(true);
+        try {
+            const result = await runComparison(createApi(), plan, {
+                onEntryUpdate: (entry, index) => setComparison(current => current && current.createdAt === plan.createdAt
+                    ? { ...current, entries: current.entries.map((e, i) => i === index ? entry : e) }
+                    : current),
+            });
+            setComparison(result);
+        } catch (err: any) {
+            setComparisonError(describeError(err));
+        } finally {
+            setComparing(false);
+            refreshBalance();
+        }
+    };
+
+    const downloadComparison = () => {
+        if (!comparison) return;
+        const url = URL.createObjectURL(new Blob([exportComparison(comparison)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `model-comparison-${comparison.createdAt.replace(/[:.]/g, '-')}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // Opens an exported comparison for review; nothing is sent to the API.
+    const openComparisonFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setComparison(parseComparison(await file.text()));
+            setComparisonError(null);
+        } catch (err: any) {
+            setComparisonError(describeError(err));
         }
     };
 
     const supportedGuidance = selectedConfig?.supports.guidance ? Object.keys(selectedConfig.supports.guidance) : [];
     const supportedContextGuidance = selectedConfig?.supports.contextGuidance || [];
+    const historyModelIds = historyItems
+        .map(item => item.modelId)
+        .filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index);
+    const filteredHistory = historyItems.filter(item =>
+        (!historyModelFilter || item.modelId === historyModelFilter) && (!historyStatusFilter || item.status === historyStatusFilter));
+    const availableVideoStyles = generationMode === 'video' ? getVideoStylesByCategory(modelName) : null;
+    const videoStyleErrors = generationMode === 'video' ? validateVideoStyles(modelName, videoStyles) : [];
+    const isImageMode = generationMode !== 'video';
+    const resultImages: GeneratedImageDetails[] = resultRecord ? getGeneratedImages(resultRecord) : [];
+    const lastResultImageId = resultImages[0]?.id ?? null;
+    const missingRecipeFiles = importedRecipe
+        ? getMissingRecipeFiles(importedRecipe, Object.fromEntries(recipeFiles.map(file => [file.name, file])))
+        : [];
+    const compatibleElements = isImageMode ? getElementsForModel(modelName) : [];
+
+    // Check the image request as it would be sent, so mistakes show up before a round trip.
+    const paramValidation: ParamValidationResult = isImageMode && selectedConfig
+        ? createImageRequest().validate()
+        : { errors: [], warnings: [] };
+    if (generationMode === 'img2img' && !getInitImage()) {
+        paramValidation.errors.push({ field: 'init_image_id', message: initSourceKind === 'upload' ? 'Upload a starting image.' : 'Enter the id of a generated image to start from.' });
+    }
+    const renderParamIssues = (fields: string[] | null) => {
+        const matches = (field: string) => fields ? fields.includes(field) : !INLINE_ISSUE_FIELDS.includes(field);
+        return [
+            ...paramValidation.errors.filter(issue => matches(issue.field)).map(issue => (<p key={`e-${issue.message}`} className="warning">{issue.message}</p>)),
+            ...paramValidation.warnings.filter(issue => matches(issue.field)).map(issue => (<p key={`w-${issue.message}`} className="hint">{issue.message}</p>)),
+        ];
+    };
 
     return (
         <>
@@ -329,38 +1029,209 @@ const App: React.FC = () => {
             <div className="card">
                 <h2>1. Configuration</h2>
                 <div className="form-group">
-                    <label htmlFor="api-key">Leonardo API Key</label>
+                    <label htmlFor="connection-mode">Connection</label>
+                    <select id="connection-mode" value={connectionMode} onChange={(e) => setConnectionMode(e.target.value as ConnectionMode)}>
+                        <option value="direct">Direct (API Key in the browser)</option>
+                        <option value="proxy">Backend proxy</option>
+                    </select>
+                </div>
+                {isProxy ? (
+                    <>
+                        <div className="form-group">
+                            <label htmlFor="proxy-url">Proxy URL</label>
+                            <input
+                                id="proxy-url"
+                                type="text"
+                                value={proxyUrl}
+                                onChange={(e) => setProxyUrl(e.target.value)}
+                                placeholder="/api/leonardo"
+                                aria-required="true"
+                            />
+                            <p className="hint">Requests go to a LeonardoProxyServer (see proxy.ts), which adds the API Key server-side.</p>
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="proxy-token">Proxy Access Token (optional)</label>
+                            <input
+                                id="proxy-token"
+                                type="password"
+                                value={proxyToken}
+                                onChange={(e) => setProxyToken(e.target.value)}
+                                placeholder="Only needed when the proxy sets accessToken"
+                            />
+                        </div>
+                    </>
+                ) : (
+                    <div className="form-group">
+                        <label htmlFor="api-key">Leonardo API Key</label>
+                        <input
+                            id="api-key"
+                            type="password"
+                            value={apiKey}
+                            onChange={(e) => setApiKey(e.target.value)}
+                            placeholder="Enter your Leonardo AI API Key"
+                            aria-required="true"
+                        />
+                        <p className="warning">Note: Your API Key is handled client-side and not stored. For production apps, use the backend proxy.</p>
+                    </div>
+                )}
+                {isConfigured && (
+                    <div className="form-group balance-display">
+                        <span>
+                            {balance
+                                ? <>API balance: <strong>{balance.total}</strong> credits ({balance.apiPaidTokens} paid, {balance.apiSubscriptionTokens} subscription)</>
+                                : (balanceError ? <span className="warning">{balanceError}</span> : 'Loading balance...')}
+                        </span>
+                        <button type="button" className="secondary-btn" onClick={refreshBalance}>Refresh</button>
+                    </div>
+                )}
+                {isConfigured && (
+                    <div className="form-group">
+                        <button type="button" className="secondary-btn" onClick={handleSyncCatalog} disabled={catalogSyncing}>
+                            {catalogSyncing ? 'Checking Models...' : 'Sync Model Catalog'}
+                        </button>
+                        {catalogError && <p className="warning">{catalogError}</p>}
+                        {catalogReport && (
+                            <>
+                                <p className="hint">
+                                    {catalogReport.platformModelCount} platform models; {catalogReport.registered.length} added to the model list as discovered models.
+                                    {' '}{catalogReport.unknownIds.length + catalogReport.duplicateIds.length + catalogReport.renamed.length} issues with the model config.
+                                    {customModelNames && ` ${customModelNames.length} trained custom models available${customModelNames.length > 0 ? `: ${customModelNames.join(', ')}` : ''}.`}
+                                </p>
+                                <details className="debug-details">
+                                    <summary>Catalog Report</summary>
+                                    <pre>{formatCatalogReport(catalogReport)}</pre>
+                                </details>
+                            </>
+                        )}
+                    </div>
+                )}
+                <div className="form-group">
+                    <label htmlFor="max-cost">Max Credits per Generation (optional)</label>
                     <input
-                        id="api-key"
-                        type="password"
-                        value={apiKey}
-                        onChange={(e) => setApiKey(e.target.value)}
-                        placeholder="Enter your Leonardo AI API Key"
-                        aria-required="true"
+                        id="max-cost"
+                        type="number"
+                        min="0"
+                        value={maxCostPerCall}
+                        onChange={(e) => setMaxCostPerCall(e.target.value)}
+                        placeholder="No limit"
                     />
-                    <p className="warning">Note: Your API Key is handled client-side and not stored. For production apps, use a backend proxy.</p>
                 </div>
             </div>
 
             <form onSubmit={handleSubmit}>
                 <div className="card">
                     <h2>2. Generation Parameters</h2>
+                    <div className="form-group">
+                        <label htmlFor="generation-mode">Mode</label>
+                        <select id="generation-mode" value={generationMode} onChange={(e) => handleModeChange(e.target.value as GenerationMode)} aria-label="Select generation mode">
+                            <option value="image">Image</option>
+                            <option value="img2img">Image to Image</option>
+                            <option value="video">Text to Video</option>
+                        </select>
+                    </div>
                     <div className="form-group">
                         <label htmlFor="prompt">Prompt</label>
-                        <textarea id="prompt" value={prompt} onChange={(e) => setPrompt(e.target.value)} rows={4} aria-label="Image generation prompt" />
+                        <textarea id="prompt" value={prompt} onChange={(e) => setPrompt(e.target.value)} rows={4} aria-label="Generation prompt" />
+                        {renderParamIssues(['prompt'])}
+                    </div>
+                    <div className="form-group prompt-improve">
+                        <label htmlFor="prompt-instructions">Edit Instructions (optional)</label>
+                        <input
+                            id="prompt-instructions"
+                            type="text"
+                            value={promptInstructions}
+                            onChange={(e) => setPromptInstructions(e.target.value)}
+                            placeholder="e.g. Change the context to a space theme"
+                        />
+                        <button type="button" onClick={handleImprovePrompt} disabled={improvingPrompt || loading || !isConfigured || !prompt.trim() || (!promptInstructions.trim() && prompt.trim().length > PROMPT_IMPROVE_MAX_LENGTH)}>
+                            {improvingPrompt ? 'Improving...' : (promptInstructions.trim() ? 'Edit Prompt with AI' : 'Improve Prompt')}
+                        </button>
+                        {!promptInstructions.trim() && prompt.trim().length > PROMPT_IMPROVE_MAX_LENGTH && (
+                            <p className="warning">Prompt improvement only accepts up to {PROMPT_IMPROVE_MAX_LENGTH} characters ({prompt.trim().length} entered). Add edit instructions to rewrite a longer prompt.</p>
+                        )}
+                        {promptSuggestion !== null && (
+                            <div className="prompt-suggestion">
+                                <label htmlFor="prompt-suggestion">Suggested Prompt</label>
+                                <textarea id="prompt-suggestion" value={promptSuggestion} onChange={(e) => setPromptSuggestion(e.target.value)} rows={4} aria-label="Suggested prompt, editable" />
+                                <div className="button-row">
+                                    <button type="button" onClick={acceptPromptSuggestion}>Accept</button>
+                                    <button type="button" className="secondary-btn" onClick={() => setPromptSuggestion(null)}>Reject</button>
+                                </div>
+                            </div>
+                        )}
                     </div>
                     <div className="form-group">
                         <label htmlFor="model">Model</label>
                         <select id="model" value={modelName} onChange={(e) => setModelName(e.target.value)} aria-label="Select generation model">
-                            {imageModels.map(name => (<option key={name} value={name}>{name}</option>))}
-                        </select>
-                    </div>
-                    <div className="form-group">
-                        <label htmlFor="aspect-ratio">Aspect Ratio ({width}x{height})</label>
-                        <select id="aspect-ratio" value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value)} aria-label="Select aspect ratio" disabled={!selectedConfig?.supports.aspectRatios}>
-                            {selectedConfig?.supports.aspectRatios?.map(ratio => (<option key={ratio} value={ratio}>{ratio}</option>))}
+                            {modeModels.map(name => (<option key={name} value={name}>{name}{getModelConfig(name)?.label ? ` (${getModelConfig(name)!.label})` : ''}</option>))}
                         </select>
                     </div>
+                    {isImageMode && (
+                        <div className="form-group">
+                            <label htmlFor="aspect-ratio">Aspect Ratio ({width}x{height})</label>
+                            <select id="aspect-ratio" value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value)} aria-label="Select aspect ratio" disabled={!selectedConfig?.supports.aspectRatios}>
+                                {selectedConfig?.supports.aspectRatios?.map(ratio => (<option key={ratio} value={ratio}>{ratio}</option>))}
+                            </select>
+                            {renderParamIssues(['width', 'height'])}
+                        </div>
+                    )}
+                    {isImageMode && (
+                        <div className="form-group">
+                            <label htmlFor="num-images">Number of Images</label>
+                            <select id="num-images" value={numImages} onChange={(e) => setNumImages(parseInt(e.target.value, 10))} aria-label="Select number of images">
+                                {Array.from({ length: getMaxImages(modelName) }, (_, i) => i + 1).map(n => (<option key={n} value={n}>{n}</option>))}
+                            </select>
+                            {renderParamIssues(['num_images'])}
+                        </div>
+                    )}
+                    {generationMode === 'video' && (
+                        <>
+                        <div className="form-group">
+                            <label htmlFor="negative-prompt">Negative Prompt</label>
+                            <input id="negative-prompt" type="text" value={negativePrompt} onChange={(e) => setNegativePrompt(e.target.value)} placeholder="e.g. blurry, shaky camera" />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="video-resolution">Resolution</label>
+                            <select id="video-resolution" value={videoResolution} onChange={(e) => setVideoResolution(e.target.value)} aria-label="Select video resolution">
+                                {(selectedConfig?.supports.resolutions || VIDEO_RESOLUTIONS).map(r => (<option key={r} value={r}>{r.replace('RESOLUTION_', '')}p</option>))}
+                            </select>
+                        </div>
+                        {selectedConfig?.supports.frameInterpolation && (
+                            <div className="form-group toggle-group">
+                                <label htmlFor="frame-interpolation">Frame Interpolation</label>
+                                <input type="checkbox" id="frame-interpolation" checked={frameInterpolation} onChange={(e) => setFrameInterpolation(e.target.checked)} />
+                            </div>
+                        )}
+                        {availableVideoStyles && (Object.keys(availableVideoStyles) as VideoStyleCategory[])
+                            .filter(category => availableVideoStyles[category].length > 0)
+                            .map(category => VIDEO_STYLE_CATEGORIES[category].maxSelections === 1 ? (
+                                <div key={category} className="form-group">
+                                    <label htmlFor={`video-style-${category}`}>{category}</label>
+                                    <select
+                                        id={`video-style-${category}`}
+                                        value={videoStyles.find(name => availableVideoStyles[category].includes(name)) || ''}
+                                        onChange={(e) => selectVideoStyle(category, e.target.value, true)}
+                                    >
+                                        <option value="">None</option>
+                                        {availableVideoStyles[category].map(name => (<option key={name} value={name}>{name}</option>))}
+                                    </select>
+                                </div>
+                            ) : (
+                                <div key={category} className="form-group">
+                                    <label>{category}</label>
+                                    <div className="style-chip-group">
+                                        {availableVideoStyles[category].map(name => (
+                                            <label key={name} className="style-chip">
+                                                <input type="checkbox" checked={videoStyles.includes(name)} onChange={(e) => selectVideoStyle(category, name, e.target.checked)} />
+                                                {name}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        {videoStyleErrors.map(message => (<p key={message} className="warning">{message}</p>))}
+                        </>
+                    )}
 
                     {selectedConfig?.supports.alchemy && (
                          <div className="form-group toggle-group">
@@ -368,12 +1239,20 @@ const App: React.FC = () => {
                             <input type="checkbox" id="alchemy" checked={alchemy} onChange={(e) => setAlchemy(e.target.checked)} />
                          </div>
                     )}
+                    {renderParamIssues(['alchemy'])}
                      {selectedConfig?.supports.promptEnhance && (
                         <div className="form-group toggle-group">
                             <label htmlFor="enhance-prompt">Prompt Enhance</label>
                             <input type="checkbox" id="enhance-prompt" checked={enhancePrompt} onChange={(e) => setEnhancePrompt(e.target.checked)} />
                         </div>
                     )}
+                    {isImageMode && selectedConfig?.supports.promptEnhance && enhancePrompt && (
+                        <div className="form-group">
+                            <label htmlFor="enhance-instructions">Enhance Instructions (optional)</label>
+                            <input id="enhance-instructions" type="text" value={enhanceInstructions} onChange={(e) => setEnhanceInstructions(e.target.value)} placeholder="Rewrite the prompt during generation, e.g. Make it a night scene" />
+                        </div>
+                    )}
+                    {renderParamIssues(['enhancePrompt', 'enhancePromptInstructions'])}
                     {selectedConfig?.supports.alchemy && alchemy && (
                         <>
                         <div className="form-group toggle-group">
@@ -388,6 +1267,7 @@ const App: React.FC = () => {
                         </div>
                         </>
                     )}
+                    {renderParamIssues(['photoReal', 'presetStyle'])}
 
                     {selectedConfig?.supports.contrast && (
                          <div className="form-group">
@@ -395,98 +1275,195 @@ const App: React.FC = () => {
                             <select id="contrast" value={contrast} onChange={(e) => setContrast(parseFloat(e.target.value))} aria-label="Select contrast level">
                                 {CONTRAST_VALUES.map(c => (<option key={c} value={c}>{c.toFixed(1)}</option>))}
                             </select>
+                            {renderParamIssues(['contrast'])}
                         </div>
                     )}
                 </div>
 
-                <div className="card">
-                    <h2>Image Guidance</h2>
-                    <div className="guidance-card-content">
-                        {(supportedGuidance.length > 0 || supportedContextGuidance.length > 0) ? (
-                            <>
-                                <div className="guidance-upload-area">
-                                    <input type="file" id="image-upload" multiple accept="image/png, image/jpeg" onChange={handleFileInputChange} style={{ display: 'none' }}/>
-                                    <button type="button" onClick={() => document.getElementById('image-upload')?.click()} disabled={loading || !apiKey}>
-                                        + Add Guidance Image
+                {generationMode === 'img2img' && (
+                    <div className="card">
+                        <h2>Starting Image</h2>
+                        <div className="form-group">
+                            <label htmlFor="init-source">Source</label>
+                            <select id="init-source" value={initSourceKind} onChange={(e) => setInitSourceKind(e.target.value as InitImageSourceKind)}>
+                                <option value="upload">Upload a file</option>
+                                <option value="generated">A generated image</option>
+                            </select>
+                        </div>
+                        {initSourceKind === 'upload' ? (
+                            <div className="form-group">
+                                <input type="file" id="init-image-upload" accept="image/png, image/jpeg, image/webp" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleInitImageUpload(file); }} style={{ display: 'none' }}/>
+                                <div className="button-row">
+                                    <button type="button" onClick={() => document.getElementById('init-image-upload')?.click()} disabled={loading || !isConfigured}>
+                                        {initUpload ? 'Replace Image' : 'Choose Image'}
                                     </button>
+                                    {initUpload && <button type="button" className="secondary-btn" onClick={removeInitUpload}>Remove</button>}
                                 </div>
-                                {guidanceImages.length > 0 && (
-                                    <div className="guidance-list">
-                                        {guidanceImages.map((img) => {
-                                            const isContextModel = supportedContextGuidance.length > 0;
-                                            const guidanceConfig = selectedConfig?.supports.guidance?.[img.guidanceType];
-                                            const guidanceUsesWeight = guidanceConfig?.usesWeight ?? true;
-
-                                            return (
-                                                <div key={img.tempId} className="guidance-item">
-                                                    <div className="guidance-item-preview">
-                                                        <img src={img.previewUrl} alt={img.file.name} />
-                                                        {img.status !== 'ready' && (
-                                                            <div className="guidance-item-status">
-                                                                {img.status === 'uploading' && 'Uploading...'}
-                                                                {img.status === 'error' && `Error: ${img.error}`}
-                                                            </div>
-                                                        )}
-                                                    </div>
-                                                    <div className="guidance-item-controls">
-                                                        {isContextModel ? (
-                                                            <div className="form-group">
-                                                                <label htmlFor={`context-type-${img.tempId}`}>Context Type</label>
-                                                                <select
-                                                                    id={`context-type-${img.tempId}`}
-                                                                    value={img.contextType}
-                                                                    onChange={(e) => updateGuidanceImage(img.tempId, { contextType: e.target.value })}
-                                                                    disabled={img.status !== 'ready'}
-                                                                >
-                                                                    {supportedContextGuidance.map(type => (
-                                                                        <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
-                                                                    ))}
-                                                                </select>
-                                                            </div>
-                                                        ) : (
-                                                            <>
+                                {initUpload && (
+                                    <div className="guidance-item-preview">
+                                        <img src={initUpload.previewUrl} alt={initUpload.file.name} />
+                                        {initUpload.status !== 'ready' && (
+                                            <div className="guidance-item-status">
+                                                {initUpload.status === 'uploading' && 'Uploading...'}
+                                                {initUpload.status === 'error' && `Error: ${initUpload.error}`}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        ) : (
+                            <div className="form-group">
+                                <label htmlFor="init-generated-id">Generated Image ID</label>
+                                <input id="init-generated-id" type="text" value={initGeneratedImageId} onChange={(e) => setInitGeneratedImageId(e.target.value)} placeholder="An id from generated_images" />
+                                {lastResultImageId && lastResultImageId !== initGeneratedImageId && (
+                                    <button type="button" className="secondary-btn" onClick={() => setInitGeneratedImageId(lastResultImageId)}>Use Last Result</button>
+                                )}
+                            </div>
+                        )}
+                        <div className="form-group">
+                            <label htmlFor="init-strength">Init Strength: {initStrength.toFixed(2)}</label>
+                            <input type="range" id="init-strength" min="0.1" max="0.9" step="0.05" value={initStrength} onChange={(e) => setInitStrength(parseFloat(e.target.value))} />
+                            <p className="hint">Low values let the prompt change the image freely; high values stay close to it.</p>
+                        </div>
+                        {renderParamIssues(['init_image_id', 'init_generation_image_id', 'init_strength'])}
+                    </div>
+                )}
+
+                {isImageMode && compatibleElements.length > 0 && (
+                    <div className="card">
+                        <h2>Elements</h2>
+                        <div className="form-group">
+                            <label htmlFor="add-element">Add Element</label>
+                            <select id="add-element" value="" onChange={(e) => addElement(e.target.value)} aria-label="Add an element">
+                                <option value="">Select an element...</option>
+                                {compatibleElements
+                                    .filter(name => !selectedElements.some(el => el.name === name))
+                                    .map(name => (<option key={name} value={name}>{name}</option>))}
+                            </select>
+                        </div>
+                        {selectedElements.map(el => {
+                            const element = ELEMENTS[el.name];
+                            return (
+                                <div key={el.name} className="form-group element-item">
+                                    <label htmlFor={`element-${el.name}`}>{el.name}: {el.weight.toFixed(2)}</label>
+                                    <div className="slider-group">
+                                        <input
+                                            type="range"
+                                            id={`element-${el.name}`}
+                                            min={element.minWeight}
+                                            max={element.maxWeight}
+                                            step="0.05"
+                                            value={el.weight}
+                                            onChange={(e) => setSelectedElements(prev => prev.map(p => p.name === el.name ? { ...p, weight: parseFloat(e.target.value) } : p))}
+                                        />
+                                        <button type="button" className="secondary-btn" onClick={() => setSelectedElements(prev => prev.filter(p => p.name !== el.name))} title="Remove Element">&times;</button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                        {renderParamIssues(['elements'])}
+                    </div>
+                )}
+
+                {isImageMode && (
+                    <div className="card">
+                        <h2>Image Guidance</h2>
+                        <div className="guidance-card-content">
+                            {(supportedGuidance.length > 0 || supportedContextGuidance.length > 0) ? (
+                                <>
+                                    <div className="guidance-upload-area">
+                                        <input type="file" id="image-upload" multiple accept="image/png, image/jpeg, image/webp" onChange={handleFileInputChange} style={{ display: 'none' }}/>
+                                        <button type="button" onClick={() => document.getElementById('image-upload')?.click()} disabled={loading || !isConfigured}>
+                                            + Add Guidance Image
+                                        </button>
+                                    </div>
+                                    {guidanceImages.length > 0 && (
+                                        <div className="guidance-list">
+                                            {guidanceImages.map((img) => {
+                                                const isContextModel = supportedContextGuidance.length > 0;
+                                                const guidanceConfig = selectedConfig?.supports.guidance?.[img.guidanceType];
+                                                const guidanceUsesWeight = guidanceConfig?.usesWeight ?? true;
+
+                                                return (
+                                                    <div key={img.tempId} className="guidance-item">
+                                                        <div className="guidance-item-preview">
+                                                            <img src={img.previewUrl} alt={img.file.name} />
+                                                            {img.status !== 'ready' && (
+                                                                <div className="guidance-item-status">
+                                                                    {img.status === 'uploading' && 'Uploading...'}
+                                                                    {img.status === 'error' && `Error: ${img.error}`}
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                        <div className="guidance-item-controls">
+                                                            {isContextModel ? (
                                                                 <div className="form-group">
-                                                                    <label htmlFor={`guidance-type-${img.tempId}`}>Guidance Type</label>
-                                                                    <select id={`guidance-type-${img.tempId}`} value={img.guidanceType} onChange={(e) => updateGuidanceImage(img.tempId, { guidanceType: e.target.value })} disabled={img.status !== 'ready'}>
-                                                                        {supportedGuidance.map(type => (<option key={type} value={type}>{type}</option>))}
+                                                                    <label htmlFor={`context-type-${img.tempId}`}>Context Type</label>
+                                                                    <select
+                                                                        id={`context-type-${img.tempId}`}
+                                                                        value={img.contextType}
+                                                                        onChange={(e) => updateGuidanceImage(img.tempId, { contextType: e.target.value })}
+                                                                        disabled={img.status !== 'ready'}
+                                                                    >
+                                                                        {supportedContextGuidance.map(type => (
+                                                                            <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+                                                                        ))}
                                                                     </select>
                                                                 </div>
-                                                                {guidanceUsesWeight ? (
-                                                                    <div className="form-group">
-                                                                        <label>Weight: {img.weight.toFixed(2)}</label>
-                                                                        <div className="slider-group">
-                                                                            <input type="range" min="0" max="2" step="0.05" value={img.weight} onChange={(e) => updateGuidanceImage(img.tempId, { weight: parseFloat(e.target.value) })} disabled={img.status !== 'ready'} />
-                                                                        </div>
-                                                                    </div>
-                                                                ) : (
+                                                            ) : (
+                                                                <>
                                                                     <div className="form-group">
-                                                                        <label htmlFor={`strength-type-${img.tempId}`}>Strength Type</label>
-                                                                        <select id={`strength-type-${img.tempId}`} value={img.strengthType} onChange={(e) => updateGuidanceImage(img.tempId, { strengthType: e.target.value })} disabled={img.status !== 'ready'}>
-                                                                            {(GUIDANCE_STRENGTH_TYPES[img.guidanceType] || []).map(type => (<option key={type} value={type}>{type}</option>))}
+                                                                        <label htmlFor={`guidance-type-${img.tempId}`}>Guidance Type</label>
+                                                                        <select id={`guidance-type-${img.tempId}`} value={img.guidanceType} onChange={(e) => updateGuidanceImage(img.tempId, { guidanceType: e.target.value })} disabled={img.status !== 'ready'}>
+                                                                            {supportedGuidance.map(type => (<option key={type} value={type}>{type}</option>))}
                                                                         </select>
                                                                     </div>
-                                                                )}
-                                                            </>
-                                                        )}
+                                                                    {guidanceUsesWeight ? (
+                                                                        <div className="form-group">
+                                                                            <label>Weight: {img.weight.toFixed(2)}</label>
+                                                                            <div className="slider-group">
+                                                                                <input type="range" min="0" max="2" step="0.05" value={img.weight} onChange={(e) => updateGuidanceImage(img.tempId, { weight: parseFloat(e.target.value) })} disabled={img.status !== 'ready'} />
+                                                                            </div>
+                                                                        </div>
+                                                                    ) : (
+                                                                        <div className="form-group">
+                                                                            <label htmlFor={`strength-type-${img.tempId}`}>Strength Type</label>
+                                                                            <select id={`strength-type-${img.tempId}`} value={img.strengthType} onChange={(e) => updateGuidanceImage(img.tempId, { strengthType: e.target.value })} disabled={img.status !== 'ready'}>
+                                                                                {(GUIDANCE_STRENGTH_TYPES[img.guidanceType] || []).map(type => (<option key={type} value={type}>{type}</option>))}
+                                                                            </select>
+                                                                        </div>
+                                                                    )}
+                                                                </>
+                                                            )}
+                                                        </div>
+                                                        <button type="button" className="remove-guidance-btn" onClick={() => removeGuidanceImage(img.tempId)} title="Remove and delete image">&times;</button>
                                                     </div>
-                                                    <button type="button" className="remove-guidance-btn" onClick={() => removeGuidanceImage(img.tempId)} title="Remove Image">&times;</button>
-                                                </div>
-                                            );
-                                        })}
-                                    </div>
-                                )}
-                            </>
-                        ) : (
-                            <p>The selected model does not support Image Guidance.</p>
-                        )}
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                    {renderParamIssues(['controlnets', 'contextImages'])}
+                                </>
+                            ) : (
+                                <p>The selected model does not support Image Guidance.</p>
+                            )}
+                        </div>
                     </div>
-                </div>
+                )}
 
 
                 <div className="card">
-                    <button type="submit" disabled={loading || !apiKey}>
-                        {loading ? 'Generating...' : 'Generate Image'}
-                    </button>
+                    {renderParamIssues(null)}
+                    <div className="submit-row">
+                        <button type="submit" disabled={loading || !isConfigured || videoStyleErrors.length > 0 || paramValidation.errors.length > 0}>
+                            {loading ? 'Generating...' : (generationMode === 'video' ? 'Generate Video' : 'Generate Image')}
+                        </button>
+                        {isConfigured && (
+                            <span className="cost-estimate">
+                                {costEstimate !== null ? `~${costEstimate} credits` : 'Cost unknown'}
+                            </span>
+                        )}
+                    </div>
                 </div>
             </form>
 
@@ -497,7 +1474,7 @@ const App: React.FC = () => {
                     <p>{status}</p>
                     {error && <p className="warning">Error: {error}</p>}
                 </div>
-                {(resultImageUrl || enhancedPrompt) && (
+                {(resultRecord || resultVideoUrl || enhancedPrompt) && (
                     <div className="prompt-display">
                         <h4>Prompts Used</h4>
                         <p><strong>Original:</strong> {prompt}</p>
@@ -506,9 +1483,91 @@ const App: React.FC = () => {
                 )}
                 <div className="output-area">
                     {loading && <p>Please wait, this can take a minute...</p>}
-                    {resultImageUrl && <img src={resultImageUrl} alt="Generated by Leonardo AI" />}
-                    {!loading && !resultImageUrl && <p>Generated image will appear here.</p>}
+                    {resultImages.length > 0 && (
+                        <>
+                        <div className="result-gallery">
+                            {resultImages.map(image => (
+                                <div key={image.id} className="result-image">
+                                    <a href={image.url} target="_blank" rel="noreferrer">
+                                        <img src={image.url} alt={`Generated by Leonardo AI (${image.index + 1} of ${resultImages.length})`} />
+                                    </a>
+                                    <p className="hint">
+                                        {image.width && image.height ? `${image.width}x${image.height}` : 'Size unknown'}
+                                        {` · seed ${image.seed ?? 'not reported'}`}
+                                        {image.nsfw && ' · NSFW'}
+                                    </p>
+                                    <div className="button-row">
+                                        <button type="button" onClick={() => handleAnimate(image.id)} disabled={animating || loading || !isConfigured}>
+                                            {animating ? 'Animating...' : 'Animate'}
+                                        </button>
+                                        <button type="button" className="secondary-btn" onClick={() => useResultAsInitImage(image.id)} disabled={loading || imageToImageModels.length === 0}>
+                                            Use as Starting Image
+                                        </button>
+                                        <button type="button" className="secondary-btn" onClick={() => navigator.clipboard?.writeText(image.id)} title="Copy the image id">
+                                            Copy ID
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="animate-controls">
+                            <div className="form-group">
+                                <label htmlFor="motion-strength">Motion Strength: {motionStrength}</label>
+                                <input type="range" id="motion-strength" min="1" max="10" step="1" value={motionStrength} onChange={(e) => setMotionStrength(parseInt(e.target.value, 10))} disabled={animating} />
+                            </div>
+                            <div className="button-row">
+                                <button type="button" className="secondary-btn" onClick={downloadResultZip} disabled={downloadingZip}>
+                                    {downloadingZip ? 'Preparing...' : `Download All (${resultImages.length}) as Zip`}
+                                </button>
+                                <button type="button" className="secondary-btn" onClick={downloadRecipe} disabled={!sentRequest}>
+                                    Export Recipe
+                                </button>
+                            </div>
+                        </div>
+                        </>
+                    )}
+                    {animationUrl && <video src={animationUrl} controls autoPlay loop playsInline />}
+                    {resultVideoUrl && <video src={resultVideoUrl} controls autoPlay loop playsInline />}
+                    {!loading && resultImages.length === 0 && !resultVideoUrl && <p>Generated {generationMode === 'video' ? 'video' : 'image'} will appear here.</p>}
                 </div>
+                <div className="form-group">
+                    <input type="file" id="recipe-file" accept="application/json,.json" onChange={openRecipeFile} style={{ display: 'none' }} />
+                    <button type="button" className="secondary-btn" onClick={() => document.getElementById('recipe-file')?.click()} disabled={replaying}>
+                        Import Recipe
+                    </button>
+                    {recipeError && <p className="warning">{recipeError}</p>}
+                </div>
+                {importedRecipe && (
+                    <div className="prompt-display">
+                        <h4>Imported Recipe</h4>
+                        <p><strong>Model:</strong> {importedRecipe.modelName || importedRecipe.params.modelId || '(unknown)'}</p>
+                        <p><strong>Prompt:</strong> {importedRecipe.enhancedPrompt || importedRecipe.params.prompt}</p>
+                        <p><strong>Seed:</strong> {importedRecipe.params.seed ?? 'not recorded'} · <strong>Images:</strong> {importedRecipe.params.num_images ?? 4}</p>
+                        {importedRecipe.images.map(image => (
+                            <p key={`${image.role}-${image.id}`} className="hint">
+                                {image.role === 'guidance' ? `${image.guidanceType || `Preprocessor ${image.preprocessorId}`} (${image.strengthType ?? image.weight})`
+                                    : image.role === 'context' ? `Context ${image.context}`
+                                    : `Starting image, strength ${image.strength ?? 'default'}`}
+                                {': '}{image.fileName || image.id}
+                            </p>
+                        ))}
+                        {importedRecipe.images.some(image => image.kind === 'uploaded') && (
+                            <div className="form-group">
+                                <label htmlFor="recipe-images">Local Image Files (optional)</label>
+                                <input id="recipe-images" type="file" multiple accept="image/png, image/jpeg, image/webp" onChange={(e) => setRecipeFiles(Array.from(e.target.files || []))} />
+                                {missingRecipeFiles.length > 0 && (
+                                    <p className="hint">Without a file, {missingRecipeFiles.map(image => image.fileName || image.id).join(', ')} will be sent by the recorded id, which only works while the image is still on the account.</p>
+                                )}
+                            </div>
+                        )}
+                        <div className="button-row">
+                            <button type="button" onClick={handleReplayRecipe} disabled={replaying || loading || !isConfigured}>
+                                {replaying ? 'Replaying...' : 'Replay Recipe'}
+                            </button>
+                            <button type="button" className="secondary-btn" onClick={() => setImportedRecipe(null)} disabled={replaying}>Close</button>
+                        </div>
+                    </div>
+                )}
                  {(debugRequest || debugResponse) && (
                     <details className="debug-details">
                         <summary>Debug Information</summary>
@@ -529,6 +1588,137 @@ const App: React.FC = () => {
                     </details>
                 )}
             </div>
+
+            <div className="card">
+                <h2>4. History</h2>
+                <div className="form-group">
+                    <button type="button" onClick={() => loadHistory(true)} disabled={historyLoading || !isConfigured}>
+                        {historyLoading ? 'Loading...' : (historyItems.length > 0 ? 'Reload History' : 'Load History')}
+                    </button>
+                    {historyError && <p className="warning">{historyError}</p>}
+                </div>
+                {historyItems.length > 0 && (
+                    <>
+                        <div className="form-group history-filters">
+                            <select value={historyModelFilter} onChange={(e) => setHistoryModelFilter(e.target.value)} aria-label="Filter history by model">
+                                <option value="">All models</option>
+                                {historyModelIds.map(id => (<option key={id} value={id}>{getModelNameById(id) || id}</option>))}
+                            </select>
+                            <select value={historyStatusFilter} onChange={(e) => setHistoryStatusFilter(e.target.value)} aria-label="Filter history by status">
+                                <option value="">All statuses</option>
+                                {HISTORY_STATUSES.map(value => (<option key={value} value={value}>{value}</option>))}
+                            </select>
+                        </div>
+                        <div className="history-grid">
+                            {filteredHistory.map(item => {
+                                const preview = item.generated_images?.[0];
+                                return (
+                                    <button
+                                        key={item.id}
+                                        type="button"
+                                        className={`history-thumb${selectedHistory?.id === item.id ? ' selected' : ''}`}
+                                        onClick={() => openHistoryItem(item)}
+                                        title={item.prompt}
+                                    >
+                                        {preview?.motionMP4URL
+                                            ? <video src={preview.motionMP4URL} muted playsInline />
+                                            : preview?.url ? <img src={preview.url} alt={item.prompt || 'Past generation'} loading="lazy" /> : null}
+                                        {item.status !== 'COMPLETE' && <span className="history-thumb-status">{item.status}</span>}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                        {filteredHistory.length === 0 && <p className="hint">No loaded generations match the filters.</p>}
+                        {historyHasMore && (
+                            <button type="button" className="secondary-btn history-more" onClick={() => loadHistory(false)} disabled={historyLoading}>
+                                Load More
+                            </button>
+                        )}
+                    </>
+                )}
+                {selectedHistory && (
+                    <div className="history-detail">
+                        {selectedHistory.generated_images?.map(image => image.motionMP4URL
+                            ? <video key={image.id} src={image.motionMP4URL} controls loop playsInline />
+                            : <img key={image.id} src={image.url} alt={selectedHistory.prompt || 'Past generation'} />)}
+                        <p><strong>Prompt:</strong> {selectedHistory.prompt || '(none)'}</p>
+                        {selectedHistory.negativePrompt && <p><strong>Negative prompt:</strong> {selectedHistory.negativePrompt}</p>}
+                        <p>
+                            <strong>Model:</strong> {selectedHistory.modelId ? (getModelNameById(selectedHistory.modelId) || selectedHistory.modelId) : 'unknown'}
+                            {selectedHistory.imageWidth && <> &middot; {selectedHistory.imageWidth}x{selectedHistory.imageHeight}</>}
+                            {selectedHistory.presetStyle && <> &middot; {fromPresetStyle(selectedHistory.presetStyle)}</>}
+                            {selectedHistory.alchemy && <> &middot; Alchemy</>}
+                            {selectedHistory.photoReal && <> &middot; PhotoReal</>}
+                            {selectedHistory.contrast && <> &middot; Contrast {selectedHistory.contrast}</>}
+                            {selectedHistory.seed != null && <> &middot; Seed {selectedHistory.seed}</>}
+                        </p>
+                        <p className="hint">{selectedHistory.status}{selectedHistory.createdAt && ` · ${new Date(selectedHistory.createdAt).toLocaleString()}`}</p>
+                        <div className="button-row">
+                            <button type="button" onClick={() => restoreFromHistory(selectedHistory)} disabled={loading}>Restore Prompt and Settings</button>
+                            <button type="button" className="secondary-btn" onClick={() => setSelectedHistory(null)}>Close</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="card">
+                <h2>5. Compare Models</h2>
+                <p className="hint">Sends the prompt, aspect ratio and settings above to each chosen model with the same seed. Settings a model does not support are left out of its request.</p>
+                <div className="form-group">
+                    <label>Models</label>
+                    <div className="style-chip-group">
+                        {imageModels.map(name => (
+                            <label key={name} className="style-chip">
+                                <input type="checkbox" checked={compareModelNames.includes(name)} onChange={(e) => toggleCompareModel(name, e.target.checked)} disabled={comparing} />
+                                {name}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <div className="form-group">
+                    <label htmlFor="compare-seed">Seed (optional)</label>
+                    <input id="compare-seed" type="number" min="0" value={compareSeed} onChange={(e) => setCompareSeed(e.target.value)} placeholder="Random, shared by all models" disabled={comparing} />
+                </div>
+                <div className="button-row">
+                    <button type="button" onClick={handleCompare} disabled={comparing || loading || !isConfigured || generationMode !== 'image' || compareModelNames.length < 2 || !prompt.trim()}>
+                        {comparing ? 'Comparing...' : `Compare ${compareModelNames.length} Models`}
+                    </button>
+                    <button type="button" className="secondary-btn" onClick={downloadComparison} disabled={!comparison || comparing}>Export</button>
+                    <input type="file" id="comparison-file" accept="application/json,.json" onChange={openComparisonFile} style={{ display: 'none' }} />
+                    <button type="button" className="secondary-btn" onClick={() => document.getElementById('comparison-file')?.click()} disabled={comparing}>Open Export</button>
+                </div>
+                {generationMode !== 'image' && <p className="hint">Comparison is available in Image mode.</p>}
+                {comparisonError && <p className="warning">{comparisonError}</p>}
+                {comparison && (
+                    <>
+                        <p className="hint">
+                            "{comparison.settings.prompt}" &middot; {comparison.settings.aspectRatio} &middot; Seed {comparison.settings.seed} &middot; {new Date(comparison.createdAt).toLocaleString()}
+                        </p>
+                        <div className="comparison-grid">
+                            {comparison.entries.map(entry => (
+                                <div key={entry.modelName} className="comparison-cell">
+                                    <h4>{entry.modelName}</h4>
+                                    {entry.images[0]
+                                        ? <img src={entry.images[0].url} alt={`${entry.modelName}: ${comparison.settings.prompt}`} />
+                                        : <div className="comparison-placeholder">{entry.status === 'failed' ? 'Failed' : (entry.status === 'running' ? 'Generating...' : 'Waiting...')}</div>}
+                                    <p className="hint">
+                                        {entry.durationMs !== null && `${(entry.durationMs / 1000).toFixed(1)}s`}
+                                        {entry.apiCreditCost !== null && ` · ${entry.apiCreditCost} credits`}
+                                    </p>
+                                    {entry.error && <p className="warning">{entry.error}</p>}
+                                    {entry.dropped.map(issue => (<p key={issue.message} className="hint">{issue.message}</p>))}
+                                    {entry.params && (
+                                        <details className="debug-details">
+                                            <summary>Request Payload</summary>
+                                            <pre>{JSON.stringify(entry.params, null, 2)}</pre>
+                                        </details>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </div>
         </>
     );
 };
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { FetchFunction, LeonardoAPI, LeonardoBudgetExceededError } from './leonardo';
+import { LeonardoSimulator } from './simulator';
+import { getModelId } from './modelConfig';
+
+const PARAMS = { prompt: 'A lighthouse at dusk', modelId: getModelId('Leonardo Phoenix 1.0')!, width: 1024, height: 1024, num_images: 1 };
+
+// The simulator has no pricing calculator, so every job is priced at `cost` here.
+const withPricing = (sim: LeonardoSimulator, cost: number): FetchFunction => async (url, init) => {
+    if (String(url).endsWith('/pricing-calculator')) {
+        return new Response(JSON.stringify({ calculateProductPrice: { cost } }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    }
+    return sim.fetch(url, init);
+};
+
+describe('LeonardoAPI budget', () => {
+    it('counts running jobs against the session limit', async () => {
+        const sim = new LeonardoSimulator({ creditsPerImage: 10 });
+        const api = new LeonardoAPI('test-key', {
+            fetch: withPricing(sim, 10),
+            budget: { maxSessionCost: 15, checkBalance: false },
+        });
+
+        const results = await Promise.allSettled([api.generateImage(PARAMS), api.generateImage(PARAMS)]);
+
+        expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+        const refused = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')!;
+        expect(refused.reason).toBeInstanceOf(LeonardoBudgetExceededError);
+        expect((refused.reason as LeonardoBudgetExceededError).reason).toBe('session');
+        expect(sim.requests.filter(request => request.method === 'POST' && request.path === '/generations')).toHaveLength(1);
+        expect(api.getSessionSpend()).toBe(10);
+    });
+
+    it('releases the reservation of a job whose request fails', async () => {
+        const sim = new LeonardoSimulator({ creditsPerImage: 10 });
+        const api = new LeonardoAPI('test-key', {
+            fetch: withPricing(sim, 10),
+            retry: false,
+            budget: { maxSessionCost: 15, checkBalance: false },
+        });
+        sim.injectFailure({ status: 400, path: '/generations', method: 'POST' });
+
+        await expect(api.generateImage(PARAMS)).rejects.toThrow();
+        await api.generateImage(PARAMS);
+
+        expect(api.getSessionSpend()).toBe(10);
+    });
+});
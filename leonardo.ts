@@ -1,3 +1,19 @@
+import {
+    getModelConfig,
+    getModelNameById,
+    getVideoStyleName,
+    validateVideoStyles,
+    validateElements,
+    getMaxImages,
+    MAX_IMAGES_PER_GENERATION,
+    CONTRAST_VALUES,
+    NON_ALCHEMY_PRESET_STYLES,
+    createRuntimeModelEntry,
+    registerModelById,
+    unregisterModel,
+} from './modelConfig';
+import { InitImageSource, detectImageFormat, readImageSource } from './imageSource';
+
 // Type definitions based on Leonardo AI API documentation patterns
 
 interface ControlNetWithWeight {
@@ -19,6 +35,11 @@ interface ContextImageParams {
     context: string;
 }
 
+export interface ElementParams {
+    akUUID: string;
+    weight: number;
+}
+
 export interface GenerationParams {
     prompt: string;
     negative_prompt?: string;
@@ -38,30 +59,243 @@ export interface GenerationParams {
     highContrast?: boolean;
     contrast?: number;
     enhancePrompt?: boolean;
+    // Rewrites the prompt according to these instructions ("Edit with AI"). Requires enhancePrompt: true.
+    enhancePromptInstructions?: string;
     init_image_id?: string;
     init_generation_image_id?: string;
     init_strength?: number;
     imagePromptWeight?: number;
     controlnets?: ControlNetParams[];
     contextImages?: ContextImageParams[];
+    elements?: ElementParams[];
+}
+
+export interface TextToVideoParams {
+    prompt: string;
+    negativePrompt?: string;
+    // A text-to-video entry of MODEL_CONFIG, e.g. 'MOTION2' or 'VEO3'. Defaults to 'MOTION2'.
+    model?: string;
+    // Must be one of the model's supported resolutions. Defaults to the model's default resolution.
+    resolution?: string;
+    width?: number;
+    height?: number;
+    frameInterpolation?: boolean;
+    promptEnhance?: boolean;
+    styleIds?: string[];
+}
+
+// Identifies a source image by where it came from. The API needs this to set flags like isInitImage/isVariation.
+export type ImageReference =
+    | { kind: 'uploaded'; id: string }   // An init image uploaded via getInitImageUploadUrl
+    | { kind: 'generated'; id: string }  // An image from generated_images of a generation
+    | { kind: 'variation'; id: string }; // The output of a variation job (upscale, unzoom, nobg, ...)
+
+export interface ImageToVideoParams {
+    // A bare id is treated as a generated image unless this client created it as a variation.
+    image: ImageReference | string;
+    // Intensity of the motion, 1 (subtle) to 10 (dramatic).
+    motionStrength?: number;
+    isPublic?: boolean;
+}
+
+// The standalone improve endpoint only expands prompts up to this length.
+export const PROMPT_IMPROVE_MAX_LENGTH = 200;
+
+export interface PromptImproveParams {
+    prompt: string;
+    // Switches from "Improve Prompt" to "Edit with AI": the prompt is rewritten according to these instructions.
+    promptInstructions?: string;
+}
+
+export interface PromptImproveResponse {
+    promptGeneration?: {
+        prompt: string;
+        apiCreditCost?: number;
+    };
 }
 
 export interface InitialGenerationResponse {
     sdGenerationJob?: {
         generationId: string;
+        apiCreditCost?: number;
+    };
+}
+
+export interface InitialVideoGenerationResponse {
+    motionVideoGenerationJob?: {
+        generationId: string;
+        apiCreditCost?: number;
+    };
+}
+
+export interface InitialMotionGenerationResponse {
+    motionSvdGenerationJob?: {
+        generationId: string;
+        apiCreditCost?: number;
     };
 }
 
+export type JobStatus = 'PENDING' | 'COMPLETE' | 'FAILED';
+
+// One image of a generation, as listed in `generated_images`.
+export interface GeneratedImage {
+    id: string;
+    url: string;
+    nsfw?: boolean;
+    // Leonardo usually reports the seed per generation only (GenerationRecord.seed).
+    seed?: number | null;
+    likeCount?: number;
+    // Set on video generations once the clip is rendered.
+    motionMP4URL?: string | null;
+}
+
+// A generation as reported by GET /generations/{id} and the history endpoint.
+// Settings are only present when Leonardo recorded them for the generation.
+export interface GenerationRecord {
+    id: string;
+    status: JobStatus;
+    prompt?: string;
+    negativePrompt?: string | null;
+    modelId?: string | null;
+    imageWidth?: number | null;
+    imageHeight?: number | null;
+    presetStyle?: string | null;
+    alchemy?: boolean | null;
+    photoReal?: boolean | null;
+    contrast?: number | null;
+    seed?: number | null;
+    guidanceScale?: number | null;
+    inferenceSteps?: number | null;
+    initStrength?: number | null;
+    photoRealStrength?: number | null;
+    scheduler?: string | null;
+    sdVersion?: string | null;
+    public?: boolean | null;
+    createdAt?: string;
+    generated_images?: GeneratedImage[];
+}
+
 export interface GenerationResult {
-    generations_by_pk?: {
+    generations_by_pk?: GenerationRecord | null;
+}
+
+// An image together with what is known about how it was made.
+export interface GeneratedImageDetails {
+    id: string;
+    url: string;
+    generationId: string;
+    // Position within the generation, from 0.
+    index: number;
+    // The image's own seed, or the generation's seed when the generation made a single image; otherwise null.
+    seed: number | null;
+    nsfw: boolean;
+    // All images of a generation share the generation's dimensions.
+    width: number | null;
+    height: number | null;
+    modelId: string | null;
+    // The registry name for modelId, when the model is known.
+    modelName: string | null;
+    // The generation's recorded settings (prompt, style, Alchemy, ...), shared by all its images.
+    generation: Omit<GenerationRecord, 'generated_images'>;
+}
+
+/**
+ * Lists the images of a generation with their seed, NSFW flag, dimensions, model and settings.
+ * @param record - A generation from getGenerationById, waitForGeneration or listGenerations.
+ * @returns One entry per generated image, in the order Leonardo returned them.
+ */
+export const getGeneratedImages = (record: GenerationRecord): GeneratedImageDetails[] => {
+    const { generated_images: images = [], ...generation } = record;
+    const modelId = record.modelId ?? null;
+    return images.map((image, index) => ({
+        id: image.id,
+        url: image.url,
+        generationId: record.id,
+        index,
+        seed: image.seed ?? (images.length === 1 ? record.seed ?? null : null),
+        nsfw: !!image.nsfw,
+        width: record.imageWidth ?? null,
+        height: record.imageHeight ?? null,
+        modelId,
+        modelName: modelId ? getModelNameById(modelId) : null,
+        generation,
+    }));
+};
+
+export interface UserGenerationsResponse {
+    generations?: GenerationRecord[];
+}
+
+// Uploaded init images a generation refers to, as guidance, context or image-to-image source.
+const getReferencedInitImages = (params: GenerationParams): string[] => [
+    params.init_image_id,
+    ...(params.controlnets ?? []).filter(controlnet => controlnet.initImageType === 'UPLOADED').map(controlnet => controlnet.initImageId),
+    ...(params.contextImages ?? []).map(image => image.init_image_id),
+].filter((id): id is string => !!id);
+
+// The history endpoint returns at most this many generations per page.
+export const GENERATION_HISTORY_MAX_PAGE_SIZE = 50;
+
+export interface ListGenerationsOptions {
+    // Defaults to the user behind the API key, looked up through GET /me once per client.
+    userId?: string;
+    // Number of generations to skip, newest first. Defaults to 0.
+    offset?: number;
+    // Page size, 1 to GENERATION_HISTORY_MAX_PAGE_SIZE. Defaults to 10.
+    limit?: number;
+    // Replace each listed generation with GET /generations/{id}, one request per generation.
+    withDetails?: boolean;
+}
+
+export interface IterateGenerationsOptions extends Omit<ListGenerationsOptions, 'limit'> {
+    // Generations requested per page. Defaults to GENERATION_HISTORY_MAX_PAGE_SIZE.
+    pageSize?: number;
+    // Stops the walk between pages with LeonardoAbortError.
+    signal?: AbortSignal;
+}
+
+export type LegacyUpscalerStyle = 'GENERAL' | 'CINEMATIC' | '2D ART & ILLUSTRATION' | 'CG ART & GAME ASSETS';
+export type UltraUpscaleStyle = 'ARTISTIC' | 'REALISTIC';
+
+interface UniversalUpscaleBaseParams {
+    // A bare id is treated as a generated image unless this client created it as a variation.
+    image: ImageReference | string;
+    // 1.0 to 2.0.
+    upscaleMultiplier?: number;
+    // 1 to 10.
+    creativityStrength?: number;
+    prompt?: string;
+}
+
+export type UniversalUpscaleParams =
+    | (UniversalUpscaleBaseParams & {
+        mode: 'LEGACY';
+        upscalerStyle?: LegacyUpscalerStyle;
+    })
+    | (UniversalUpscaleBaseParams & {
+        mode: 'ULTRA';
+        ultraUpscaleStyle?: UltraUpscaleStyle;
+        // 1 to 10.
+        detailContrast?: number;
+        // 1 to 10.
+        similarity?: number;
+    });
+
+// A started variation job. `image` references its output, ready to be passed to the next variation.
+export interface VariationJob {
+    id: string;
+    image: ImageReference;
+    apiCreditCost?: number;
+}
+
+export interface VariationResult {
+    generated_image_variation_generic?: {
         id: string;
-        status: 'PENDING' | 'COMPLETE' | 'FAILED';
-        prompt?: string;
-        generated_images?: {
-            id: string;
-            url: string;
-        }[];
-    };
+        status: JobStatus;
+        url?: string | null;
+        transformType?: string;
+        createdAt?: string;
+    }[];
 }
 
 export interface InitImageUploadResponse {
@@ -73,86 +307,1870 @@ export interface InitImageUploadResponse {
     }
 }
 
+export interface UserInfo {
+    user_details?: {
+        user?: {
+            id: string;
+            username?: string;
+        };
+        apiPaidTokens?: number | null;
+        apiSubscriptionTokens?: number | null;
+        apiConcurrencySlots?: number;
+        apiPlanTokenRenewalDate?: string | null;
+        subscriptionTokens?: number | null;
+    }[];
+}
+
+// A platform model from GET /platformModels. The list covers image models only; video models have no id.
+export interface PlatformModel {
+    id: string;
+    name: string;
+    description?: string | null;
+    nsfw?: boolean;
+    featured?: boolean;
+    generated_image?: { id: string; url: string } | null;
+}
+
+export interface PlatformModelsResponse {
+    custom_models?: PlatformModel[];
+}
+
+export interface CreateDatasetParams {
+    name: string;
+    description?: string;
+}
+
+export interface CreateDatasetResponse {
+    insert_datasets_one?: { id: string } | null;
+}
+
+export interface Dataset {
+    id: string;
+    name: string;
+    description?: string | null;
+    createdAt?: string;
+    updatedAt?: string;
+    dataset_images?: { id: string; url: string; createdAt?: string }[];
+}
+
+export interface DatasetResult {
+    datasets_by_pk?: Dataset | null;
+}
+
+export interface DeleteDatasetResponse {
+    delete_datasets_by_pk?: { id: string } | null;
+}
+
+export interface DatasetImageUploadResponse {
+    uploadDatasetImage?: {
+        id: string;
+        fields: string; // This is a JSON string
+        key: string;
+        url: string;
+    } | null;
+}
+
+export interface DatasetImageFromGenerationResponse {
+    uploadDatasetImageFromGen?: { id: string } | null;
+}
+
+// The subject a custom model is trained on, which tunes the training.
+export type CustomModelType =
+    | 'GENERAL'
+    | 'BUILDINGS'
+    | 'CHARACTERS'
+    | 'ENVIRONMENTS'
+    | 'FASHION'
+    | 'ILLUSTRATIONS'
+    | 'GAME_ITEMS'
+    | 'GRAPHICAL_ELEMENTS'
+    | 'PHOTOGRAPHY'
+    | 'PIXEL_ART'
+    | 'PRODUCT_DESIGN'
+    | 'TEXTURES'
+    | 'UI_ELEMENTS'
+    | 'VECTOR';
+
+// Training resolutions Leonardo accepts.
+export const CUSTOM_MODEL_RESOLUTIONS = [512, 768];
+
+export interface TrainCustomModelParams {
+    name: string;
+    description?: string;
+    datasetId: string;
+    // The word or phrase the model learns for the subject, to use in prompts (e.g. "acme mascot").
+    instance_prompt: string;
+    modelType?: CustomModelType; // Defaults to 'GENERAL'
+    nsfw?: boolean;
+    resolution?: number; // One of CUSTOM_MODEL_RESOLUTIONS. Defaults to 512.
+    sd_Version?: 'v1_5' | 'v2' | 'SDXL_0_9' | 'SDXL_1_0';
+    strength?: 'VERY_LOW' | 'LOW' | 'MEDIUM' | 'HIGH'; // Defaults to 'MEDIUM'
+}
+
+export interface TrainCustomModelResponse {
+    sdTrainingJob?: {
+        customModelId: string;
+        apiCreditCost?: number;
+    } | null;
+}
+
+export interface CustomModel {
+    id: string;
+    name: string;
+    description?: string | null;
+    status: JobStatus;
+    instancePrompt?: string | null;
+    modelWidth?: number | null;
+    modelHeight?: number | null;
+    sdVersion?: string | null;
+    type?: CustomModelType | null;
+    trainingStrength?: string | null;
+    nsfw?: boolean;
+    public?: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface CustomModelResult {
+    custom_models_by_pk?: CustomModel | null;
+}
+
+export interface UserCustomModelsResponse {
+    custom_models?: CustomModel[];
+}
+
 /**
- * A reusable class to interact with the Leonardo AI API.
+ * Registers a finished custom model in the runtime model registry, so getModelConfig, getModelId and the model
+ * lists in the UI offer it. waitForTraining calls this when training completes.
+ * @returns The name it is registered under, or null when the model has not finished training.
  */
-export class LeonardoAPI {
-    private readonly apiKey: string;
-    private readonly baseUrl: string = 'https://cloud.leonardo.ai/api/rest/v1';
+export const registerCustomModel = (model: CustomModel): string | null =>
+    model.status === 'COMPLETE' ? registerModelById(model.name, createRuntimeModelEntry(model.id, 'CUSTOM', 'custom')) : null;
 
-    constructor(apiKey: string) {
-        if (!apiKey) {
-            throw new Error('Leonardo API key is required.');
-        }
-        this.apiKey = apiKey;
+// The API credit balance from GET /me. Jobs draw from both pools, so `total` is what can still be spent.
+export interface AccountBalance {
+    userId: string;
+    username?: string;
+    apiPaidTokens: number;
+    apiSubscriptionTokens: number;
+    total: number;
+}
+
+export type PricingService =
+    | 'IMAGE_GENERATION'
+    | 'FANTASY_AVATAR_GENERATION'
+    | 'MOTION_GENERATION'
+    | 'LCM_GENERATION'
+    | 'MODEL_TRAINING'
+    | 'TEXTURE_GENERATION'
+    | 'UNIVERSAL_UPSCALER'
+    | 'UNIVERSAL_UPSCALER_ULTRA';
+
+export interface PricingCalculatorParams {
+    service: PricingService;
+    // Keyed by the service name, e.g. { IMAGE_GENERATION: { imageWidth: 1024, ... } }.
+    serviceParams: Partial<Record<PricingService, Record<string, unknown>>>;
+}
+
+export interface PricingCalculatorResponse {
+    calculateProductPrice?: {
+        cost: number;
+    };
+}
+
+export type VariationType = 'upscale' | 'universal-upscaler' | 'unzoom' | 'nobg';
+
+// A job whose cost can be estimated before it is sent.
+export type CostEstimateRequest =
+    | { kind: 'image'; params: GenerationParams }
+    | { kind: 'text-to-video'; params: TextToVideoParams }
+    | { kind: 'image-to-video'; params: ImageToVideoParams }
+    | { kind: 'variation'; type: VariationType }
+    | { kind: 'model-training' };
+
+export interface CostEstimate {
+    // Estimated credits, or null when nothing is known about the job's price yet.
+    cost: number | null;
+    // Where the number came from. 'last-charge' reuses what this client was charged for the same endpoint.
+    source: 'pricing-calculator' | 'model-config' | 'last-charge' | 'unknown';
+}
+
+export interface BudgetOptions {
+    // Refuse any single job estimated to cost more than this many credits.
+    maxCostPerCall?: number;
+    // Refuse jobs that would take the credits spent through this client past this total.
+    maxSessionCost?: number;
+    // Refuse jobs the remaining API balance (GET /me) cannot cover. Defaults to true.
+    checkBalance?: boolean;
+    // Whether jobs whose cost cannot be estimated are sent anyway. Defaults to true.
+    allowUnknownCost?: boolean;
+}
+
+// Responses of the DELETE endpoints. Each echoes the id of the deleted resource.
+export interface DeleteGenerationResponse {
+    delete_generations_by_pk?: { id: string } | null;
+}
+
+export interface DeleteInitImageResponse {
+    delete_init_image_by_pk?: { id: string } | null;
+}
+
+export interface DeleteCustomModelResponse {
+    delete_custom_models_by_pk?: { id: string } | null;
+}
+
+export interface DeleteTextureGenerationResponse {
+    delete_model_asset_texture_generations_by_pk?: { id: string } | null;
+}
+
+// Which init images uploaded through the client get deleted:
+// 'unused' deletes the ones no job referenced, when cleanupInitImages() is called.
+// 'after-job' deletes a job's init images once waitForGeneration/waitForVariation sees it finish,
+// and every remaining one when cleanupInitImages() is called.
+export type InitImageCleanupPolicy = 'unused' | 'after-job';
+
+export interface InitImageCleanupResult {
+    deleted: string[];
+    // Deletions that failed. The images stay tracked, so a later cleanup retries them.
+    failed: { id: string; error: LeonardoAPIError }[];
+}
+
+export interface UploadInitImageOptions {
+    // Reject files larger than this many bytes before anything is uploaded.
+    maxBytes?: number;
+    // Reject images wider or taller than this (read from the file header).
+    maxWidth?: number;
+    maxHeight?: number;
+    // Fail instead of falling back to an unverifiable no-cors upload when the browser blocks reading the storage response.
+    requireVerification?: boolean;
+}
+
+// --- Error types ---
+
+interface LeonardoErrorDetails {
+    status?: number | null;
+    body?: unknown;
+    endpoint: string;
+    requestId?: string | null;
+}
+
+/**
+ * Base class for every error thrown by LeonardoAPI.
+ * Carries the HTTP status, the parsed error body, the endpoint and the request id (when the API sent one).
+ */
+export class LeonardoAPIError extends Error {
+    public readonly name: string = 'LeonardoAPIError';
+    public readonly status: number | null;
+    public readonly body: unknown;
+    public readonly endpoint: string;
+    public readonly requestId: string | null;
+
+    constructor(message: string, details: LeonardoErrorDetails) {
+        super(message);
+        this.status = details.status ?? null;
+        this.body = details.body ?? null;
+        this.endpoint = details.endpoint;
+        this.requestId = details.requestId ?? null;
     }
+}
 
-    private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-        const url = `${this.baseUrl}${endpoint}`;
-        const headers = {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.apiKey}`,
-            'accept': 'application/json',
-        };
+/** The API key is missing, invalid or not tied to an active API subscription (401/403). */
+export class LeonardoAuthError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoAuthError';
+}
 
-        const config: RequestInit = {
-            ...options,
-            headers: { ...headers, ...options.headers },
-        };
+/** Too many requests (429). `retryAfter` holds the server's Retry-After hint in seconds, if any. */
+export class LeonardoRateLimitError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoRateLimitError';
+    public readonly retryAfter: number | null;
 
-        try {
-            const response = await fetch(url, config);
-            if (!response.ok) {
-                const errorBody = await response.text();
-                throw new Error(`API request failed with status ${response.status}: ${errorBody}`);
+    constructor(message: string, details: LeonardoErrorDetails & { retryAfter?: number | null }) {
+        super(message, details);
+        this.retryAfter = details.retryAfter ?? null;
+    }
+}
+
+/** The account does not have enough API credits for the requested job. */
+export class LeonardoInsufficientCreditsError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoInsufficientCreditsError';
+}
+
+/** The request was rejected because of invalid parameters (400/422). */
+export class LeonardoValidationError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoValidationError';
+}
+
+/** The requested resource (e.g. a generation id) does not exist (404). */
+export class LeonardoNotFoundError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoNotFoundError';
+}
+
+/** Leonardo's servers failed to handle the request (5xx). */
+export class LeonardoServerError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoServerError';
+}
+
+/** The request never produced an HTTP response (DNS failure, CORS block, connection reset, ...). */
+export class LeonardoNetworkError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoNetworkError';
+}
+
+/** The storage bucket rejected an init image upload, e.g. because the presigned POST expired. `status` is the bucket's status code. */
+export class LeonardoUploadError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoUploadError';
+}
+
+/** A generation finished with status FAILED. `generation` holds the final generation record. */
+export class LeonardoGenerationFailedError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoGenerationFailedError';
+    public readonly generationId: string;
+
+    constructor(message: string, details: LeonardoErrorDetails & { generationId: string }) {
+        super(message, details);
+        this.generationId = details.generationId;
+    }
+}
+
+/** Waiting for a generation exceeded its timeout. The job itself may still complete later. */
+export class LeonardoTimeoutError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoTimeoutError';
+    public readonly generationId: string;
+
+    constructor(message: string, details: LeonardoErrorDetails & { generationId: string }) {
+        super(message, details);
+        this.generationId = details.generationId;
+    }
+}
+
+/** Waiting for a generation (or walking the history) was cancelled through an AbortSignal. `generationId` is null for the history. */
+export class LeonardoAbortError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoAbortError';
+    public readonly generationId: string | null;
+
+    constructor(message: string, details: LeonardoErrorDetails & { generationId?: string | null }) {
+        super(message, details);
+        this.generationId = details.generationId ?? null;
+    }
+}
+
+/** The budget guard refused a job before it was sent. `reason` names the limit that would have been exceeded. */
+export class LeonardoBudgetExceededError extends LeonardoAPIError {
+    public readonly name: string = 'LeonardoBudgetExceededError';
+    public readonly reason: 'per-call' | 'session' | 'balance' | 'unknown-cost';
+    public readonly estimatedCost: number | null;
+    public readonly limit: number | null;
+
+    constructor(message: string, details: LeonardoErrorDetails & {
+        reason: LeonardoBudgetExceededError['reason'];
+        estimatedCost: number | null;
+        limit: number | null;
+    }) {
+        super(message, details);
+        this.reason = details.reason;
+        this.estimatedCost = details.estimatedCost;
+        this.limit = details.limit;
+    }
+}
+
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-amzn-requestid', 'x-amz-request-id', 'cf-ray'];
+const INSUFFICIENT_CREDITS_PATTERN = /(not enough|insufficient)[^.]*(credit|token)|(credit|token)s? balance/i;
+
+const parseErrorBody = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+};
+
+// Narrows parsed JSON to a plain object.
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Pulls a human-readable message out of the shapes Leonardo (and S3) use for error bodies.
+const extractErrorMessage = (body: unknown): string => {
+    if (typeof body === 'string') {
+        return body;
+    }
+    if (body && typeof body === 'object') {
+        const record = body as Record<string, unknown>;
+        for (const key of ['error', 'message', 'detail']) {
+            if (typeof record[key] === 'string') {
+                return record[key] as string;
             }
-            return await response.json() as T;
-        } catch (error) {
-            console.error('Leonardo API request error:', error);
-            throw error;
         }
+        return JSON.stringify(body);
     }
+    return '';
+};
 
-    /**
-     * Initiates an image generation job.
-     * @param params - The parameters for the image generation.
-     * @returns A promise that resolves to the initial response containing the generation ID.
-     */
-    public generateImage(params: GenerationParams): Promise<InitialGenerationResponse> {
-        return this.request<InitialGenerationResponse>('/generations', {
-            method: 'POST',
-            body: JSON.stringify(params),
-        });
+const parseRetryAfter = (header: string | null): number | null => {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds);
     }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, (date - Date.now()) / 1000);
+};
 
-    /**
-     * Retrieves the status and result of a generation job.
-     * @param generationId - The ID of the generation job to check.
-     * @returns A promise that resolves to the generation result.
-     */
-    public getGenerationById(generationId: string): Promise<GenerationResult> {
-        return this.request<GenerationResult>(`/generations/${generationId}`);
+/**
+ * Maps a failed HTTP response onto the matching LeonardoAPIError subclass.
+ */
+const createErrorFromResponse = (endpoint: string, response: Response, bodyText: string): LeonardoAPIError => {
+    const { status } = response;
+    const body = parseErrorBody(bodyText);
+    const requestId = REQUEST_ID_HEADERS.map(name => response.headers.get(name)).find(Boolean) ?? null;
+    const details: LeonardoErrorDetails = { status, body, endpoint, requestId };
+    const message = `API request failed with status ${status}: ${extractErrorMessage(body) || response.statusText}`;
+
+    if (status === 402 || INSUFFICIENT_CREDITS_PATTERN.test(bodyText)) {
+        return new LeonardoInsufficientCreditsError(message, details);
+    }
+    if (status === 401 || status === 403) {
+        return new LeonardoAuthError(message, details);
+    }
+    if (status === 429) {
+        return new LeonardoRateLimitError(message, { ...details, retryAfter: parseRetryAfter(response.headers.get('retry-after')) });
+    }
+    if (status === 404) {
+        return new LeonardoNotFoundError(message, details);
     }
+    if (status === 400 || status === 422) {
+        // Leonardo reports a bad key through its auth hook with a 400, so check the message before calling it a validation error.
+        if (/authori[sz]ation hook|invalid api key/i.test(bodyText)) {
+            return new LeonardoAuthError(message, details);
+        }
+        return new LeonardoValidationError(message, details);
+    }
+    if (status >= 500) {
+        return new LeonardoServerError(message, details);
+    }
+    return new LeonardoAPIError(message, details);
+};
 
-    /**
-     * Step 1 of 2 for uploading an image for Image Guidance.
-     * Requests a presigned URL to upload an image to.
-     * @param extension - The file extension of the image (e.g., "png", "jpg").
-     * @returns A promise that resolves to the upload details.
-     */
-    public getInitImageUploadUrl(extension: string): Promise<InitImageUploadResponse> {
-        const payload = {
-            extension: extension.toLowerCase()
-        };
-        return this.request<InitImageUploadResponse>('/init-image', {
-            method: 'POST',
-            body: JSON.stringify(payload)
-        });
+// --- Retry policy ---
+
+export interface RetryPolicy {
+    // Total number of attempts, including the first one. 1 disables retries.
+    maxAttempts: number;
+    // Delay before the first retry; doubles on every subsequent retry.
+    baseDelayMs: number;
+    // Upper bound for the computed backoff delay.
+    maxDelayMs: number;
+    // Randomizes each delay by up to this fraction (0 = no jitter, 1 = +/-100%).
+    jitter: number;
+    // Wait for the server's Retry-After hint instead of the computed backoff when one is sent.
+    respectRetryAfter: boolean;
+    // HTTP statuses that are worth retrying.
+    retryableStatuses: number[];
+    // Whether requests that never got a response are retried.
+    retryNetworkErrors: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    jitter: 0.2,
+    respectRetryAfter: true,
+    retryableStatuses: [429, 500, 502, 503, 504],
+    retryNetworkErrors: true,
+};
+
+export interface RetryEvent {
+    endpoint: string;
+    method: string;
+    // The attempt that just failed (1-based).
+    attempt: number;
+    maxAttempts: number;
+    // How long the client waits before the next attempt.
+    delayMs: number;
+    reason: 'rate-limit' | 'server-error' | 'network-error';
+    error: LeonardoAPIError;
+}
+
+// The part of `fetch` LeonardoAPI relies on. Swap it to route requests through another transport or a simulator.
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface LeonardoAPIOptions {
+    // Overrides for DEFAULT_RETRY_POLICY, or false to never retry.
+    retry?: Partial<RetryPolicy> | false;
+    // Called before every retry, e.g. to show "rate limited, retrying in 8s".
+    onRetry?: (event: RetryEvent) => void;
+    // Estimates every generation, video and variation job and refuses those over budget before sending them.
+    budget?: BudgetOptions;
+    // Default for GenerateImageOptions.validate.
+    validateParams?: boolean;
+    // Where requests are sent, e.g. a LeonardoProxyServer. Defaults to Leonardo's production API.
+    baseUrl?: string;
+    // Sends every request, including storage uploads. Defaults to the global fetch.
+    fetch?: FetchFunction;
+    // Tracks init images uploaded through this client and deletes them according to the policy. Off by default.
+    initImageCleanup?: InitImageCleanupPolicy;
+}
+
+export interface GenerateImageOptions {
+    // Run validateGenerationParams before sending. Ids outside the model registry are not checked; registered custom
+    // models are checked against their conservative entry (square images, no Alchemy, contrast or guidance).
+    validate?: boolean;
+}
+
+interface RequestOptions {
+    // Whether the request can safely be sent twice. Defaults to true for everything but POST.
+    idempotent?: boolean;
+}
+
+/**
+ * Checks text-to-video params against the model's capabilities and fills in the model's default resolution.
+ * @throws LeonardoValidationError when the model or a setting is not supported.
+ */
+const resolveTextToVideoParams = (params: TextToVideoParams, endpoint: string): TextToVideoParams => {
+    const model = params.model ?? 'MOTION2';
+    const config = getModelConfig(model);
+    const fail = (field: string, message: string) => {
+        throw new LeonardoValidationError(message, { endpoint, body: { field, message } });
+    };
+
+    if (!config || config.nodeType !== 'text-to-video') {
+        fail('model', `"${model}" is not a text-to-video model.`);
+    }
+    const { supports, defaults } = config!;
+    const resolution = params.resolution ?? defaults.resolution;
+    if (resolution && supports.resolutions && !supports.resolutions.includes(resolution)) {
+        fail('resolution', `${model} does not support ${resolution}. Supported: ${supports.resolutions.join(', ')}.`);
+    }
+    if (params.frameInterpolation && !supports.frameInterpolation) {
+        fail('frameInterpolation', `${model} does not support frame interpolation.`);
+    }
+    if (params.promptEnhance && !supports.promptEnhance) {
+        fail('promptEnhance', `${model} does not support prompt enhancement.`);
+    }
+    // Only ids from the catalog can be checked; unknown ids are passed through for styles Leonardo adds later.
+    const styleNames = (params.styleIds ?? []).map(getVideoStyleName).filter((name): name is string => name !== null);
+    const styleErrors = validateVideoStyles(model, styleNames);
+    if (styleErrors.length > 0) {
+        fail('styleIds', styleErrors.join(' '));
+    }
+
+    return { ...params, model, ...(resolution ? { resolution } : {}) };
+};
+
+export interface ParamIssue {
+    // The GenerationParams key the issue is about, e.g. 'width' or 'controlnets'.
+    field: string;
+    message: string;
+}
+
+export interface ParamValidationResult {
+    // Problems the API would reject with a 400.
+    errors: ParamIssue[];
+    // Settings that will be ignored or are likely mistakes, but do not fail the request.
+    warnings: ParamIssue[];
+}
+
+/**
+ * Checks image generation params against the documented constraints and the model's entry in MODEL_CONFIG.
+ * @param modelName - A MODEL_CONFIG name, e.g. 'Leonardo Phoenix 1.0'.
+ * @param params - The params that would be sent to POST /generations.
+ * @returns Field-level errors and warnings; the params are valid when `errors` is empty.
+ */
+export const validateGenerationParams = (modelName: string, params: GenerationParams): ParamValidationResult => {
+    const errors: ParamIssue[] = [];
+    const warnings: ParamIssue[] = [];
+    const error = (field: string, message: string) => errors.push({ field, message });
+    const warn = (field: string, message: string) => warnings.push({ field, message });
+    const range = (field: keyof GenerationParams, min: number, max: number, integer = false) => {
+        const value = params[field] as number | undefined;
+        if (value !== undefined && (Number.isNaN(value) || value < min || value > max || (integer && !Number.isInteger(value)))) {
+            error(field, `${field} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max} (got ${value}).`);
+        }
+    };
+
+    const config = getModelConfig(modelName);
+    if (!config || config.nodeType !== 'image-generation') {
+        error('modelId', `"${modelName}" is not an image generation model.`);
+        return { errors, warnings };
+    }
+    const { supports } = config;
+
+    if (!params.prompt?.trim()) {
+        error('prompt', 'A prompt is required.');
+    }
+
+    // --- Dimensions and sampling ---
+    (['width', 'height'] as const).forEach(field => {
+        const value = params[field];
+        if (value !== undefined && (!Number.isInteger(value) || value % 8 !== 0 || value < 32 || value > 1536)) {
+            error(field, `${field} must be a multiple of 8 between 32 and 1536 (got ${value}).`);
+        }
+    });
+    range('num_images', 1, MAX_IMAGES_PER_GENERATION, true);
+    const maxImages = getMaxImages(modelName);
+    if (params.num_images !== undefined && maxImages < MAX_IMAGES_PER_GENERATION && params.num_images > maxImages) {
+        error('num_images', `${modelName} generates at most ${maxImages} image${maxImages === 1 ? '' : 's'} per request (got ${params.num_images}).`);
+    }
+    range('guidance_scale', 1, 20, true);
+    range('num_inference_steps', 10, 60, true);
+    range('init_strength', 0.1, 0.9);
+    range('contrastRatio', 0, 1);
+    if (params.init_image_id && params.init_generation_image_id) {
+        error('init_image_id', 'Use either init_image_id or init_generation_image_id, not both.');
+    }
+    const hasInitImage = !!(params.init_image_id || params.init_generation_image_id);
+    if (hasInitImage && !supports.imageToImage) {
+        error('init_image_id', `${modelName} does not support image-to-image.`);
+    }
+    if (params.init_strength !== undefined && !hasInitImage) {
+        error('init_strength', 'init_strength requires init_image_id or init_generation_image_id.');
+    }
+
+    // --- Alchemy, PhotoReal and styles ---
+    if (params.alchemy && !supports.alchemy) {
+        error('alchemy', `${modelName} does not support Alchemy.`);
+    }
+    if (params.photoReal && !params.alchemy) {
+        error('photoReal', 'PhotoReal requires alchemy: true.');
+    }
+    if (params.photoReal && params.photoRealVersion === 'v1' && params.modelId) {
+        warn('modelId', 'PhotoReal v1 ignores modelId; omit it.');
+    }
+    if (params.presetStyle && !params.alchemy && !NON_ALCHEMY_PRESET_STYLES.includes(params.presetStyle)) {
+        error('presetStyle', `presetStyle ${params.presetStyle} requires alchemy: true. Without Alchemy only ${NON_ALCHEMY_PRESET_STYLES.join(' and ')} are available.`);
+    }
+
+    // --- Contrast ---
+    if (supports.contrast) {
+        if (params.contrast === undefined) {
+            error('contrast', `${modelName} requires a contrast value.`);
+        } else if (!CONTRAST_VALUES.includes(params.contrast)) {
+            error('contrast', `contrast must be one of ${CONTRAST_VALUES.join(', ')} (got ${params.contrast}).`);
+        } else if (params.alchemy && supports.minAlchemyContrast !== undefined && params.contrast < supports.minAlchemyContrast) {
+            error('contrast', `${modelName} requires contrast of at least ${supports.minAlchemyContrast} with Alchemy (got ${params.contrast}).`);
+        }
+    } else if (params.contrast !== undefined) {
+        warn('contrast', `${modelName} has no contrast setting; contrast will be ignored.`);
+    }
+
+    // --- Prompt enhancement ---
+    if (params.enhancePrompt && !supports.promptEnhance) {
+        error('enhancePrompt', `${modelName} does not support prompt enhancement.`);
+    }
+    if (params.enhancePromptInstructions && !params.enhancePrompt) {
+        error('enhancePromptInstructions', 'enhancePromptInstructions requires enhancePrompt: true.');
+    }
+
+    // --- Image guidance ---
+    const controlnets = params.controlnets ?? [];
+    if (controlnets.length > 0) {
+        const guidance = supports.guidance ?? {};
+        const counts: Record<string, number> = {};
+        controlnets.forEach(controlnet => {
+            const type = Object.keys(guidance).find(name => guidance[name].preprocessorId === controlnet.preprocessorId);
+            if (!type) {
+                error('controlnets', `Preprocessor ${controlnet.preprocessorId} is not available for ${modelName}.`);
+                return;
+            }
+            counts[type] = (counts[type] || 0) + 1;
+            if (guidance[type].usesWeight && !('weight' in controlnet)) {
+                error('controlnets', `${type} takes a weight, not a strengthType.`);
+            } else if (!guidance[type].usesWeight && !('strengthType' in controlnet)) {
+                error('controlnets', `${type} takes a strengthType, not a weight.`);
+            }
+        });
+        Object.keys(counts).forEach(type => {
+            if (counts[type] > guidance[type].maxInputs) {
+                error('controlnets', `${modelName} accepts at most ${guidance[type].maxInputs} ${type} image${guidance[type].maxInputs === 1 ? '' : 's'} (got ${counts[type]}).`);
+            }
+        });
+    }
+    const contextImages = params.contextImages ?? [];
+    if (contextImages.length > 0 && !supports.contextGuidance) {
+        error('contextImages', `${modelName} does not support context images.`);
+    } else {
+        contextImages
+            .filter(image => !supports.contextGuidance!.includes(image.context))
+            .forEach(image => error('contextImages', `Context "${image.context}" is not supported by ${modelName}. Supported: ${supports.contextGuidance!.join(', ')}.`));
+    }
+
+    validateElements(modelName, params.elements ?? []).forEach(message => error('elements', message));
+
+    return { errors, warnings };
+};
+
+// Maps generation params onto the pricing calculator's IMAGE_GENERATION inputs, using the API's defaults for unset fields.
+const toImagePricingParams = (params: GenerationParams): Record<string, unknown> => {
+    const modelName = params.modelId ? getModelNameById(params.modelId) : null;
+    const config = modelName ? getModelConfig(modelName) : null;
+    const family = config?.family;
+    return {
+        imageWidth: params.width ?? 1024,
+        imageHeight: params.height ?? 768,
+        numImages: params.num_images ?? 4,
+        inferenceSteps: params.num_inference_steps ?? 15,
+        promptMagic: false,
+        alchemyMode: !!params.alchemy,
+        highResolution: false,
+        // Trained custom models are registered at runtime with family CUSTOM (Lucid Realism and Lucid Origin share the
+        // family but are platform models); ids outside the registry can only be models trained on the account.
+        isModelCustom: !!params.modelId && (!config || (!!config.discovered && family === 'CUSTOM')),
+        isSDXL: family === 'SDXL' || family === 'VISION',
+        isSDXLLightning: modelName === 'Leonardo Lightning XL',
+        isPhoenix: family === 'PHOENIX',
+    };
+};
+
+export interface PollOptions<T> {
+    // Delay between status checks. The first check happens immediately. Defaults to 5s.
+    intervalMs?: number;
+    // Multiplies the interval after every check that is still pending. Defaults to 1.5.
+    backoffFactor?: number;
+    // Upper bound for the polling interval. Defaults to 30s.
+    maxIntervalMs?: number;
+    // Overall time to wait before rejecting with LeonardoTimeoutError. Defaults to 5 minutes.
+    timeoutMs?: number;
+    // Cancels the wait with LeonardoAbortError.
+    signal?: AbortSignal;
+    // Receives every polled result, including the final one. `attempt` is 1-based.
+    onProgress?: (result: T, attempt: number) => void;
+}
+
+export type WaitForGenerationOptions = PollOptions<GenerationResult>;
+export type WaitForVariationOptions = PollOptions<VariationResult>;
+export type WaitForTrainingOptions = PollOptions<CustomModelResult>;
+
+// Throws a LeonardoValidationError unless `value` is undefined or within [min, max].
+const checkRange = (endpoint: string, field: string, value: number | undefined, min: number, max: number, integer = false) => {
+    if (value === undefined) return;
+    if (Number.isNaN(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+        const message = `${field} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}.`;
+        throw new LeonardoValidationError(message, { endpoint, body: { field, message } });
+    }
+};
+
+// init_strength used when neither the caller nor the model's defaults choose one.
+export const DEFAULT_INIT_STRENGTH = 0.5;
+
+export type ImageToImageParams = Pick<GenerationParams, 'init_image_id' | 'init_generation_image_id' | 'init_strength'>;
+
+/**
+ * Builds the image-to-image fields of a generation request. Uploaded images go in `init_image_id`,
+ * generated ones in `init_generation_image_id`.
+ * @param image - The starting image. Variation outputs (upscales, background removals, ...) cannot be used.
+ * @param strength - How closely the result follows the image, 0.1 (loosely) to 0.9 (closely). Defaults to DEFAULT_INIT_STRENGTH.
+ * @returns The fields to merge into GenerationParams.
+ * @throws LeonardoValidationError for a variation output or a strength outside 0.1 to 0.9.
+ */
+export const buildImageToImageParams = (image: ImageReference, strength: number = DEFAULT_INIT_STRENGTH): ImageToImageParams => {
+    const endpoint = '/generations';
+    if (image.kind === 'variation') {
+        const message = 'Variation outputs cannot be used as an image-to-image source.';
+        throw new LeonardoValidationError(message, { endpoint, body: { field: 'init_generation_image_id', message } });
+    }
+    checkRange(endpoint, 'init_strength', strength, 0.1, 0.9);
+    return image.kind === 'uploaded'
+        ? { init_image_id: image.id, init_strength: strength }
+        : { init_generation_image_id: image.id, init_strength: strength };
+};
+
+const DEFAULT_BASE_URL = 'https://cloud.leonardo.ai/api/rest/v1';
+
+const DEFAULT_WAIT_OPTIONS = {
+    intervalMs: 5000,
+    backoffFactor: 1.5,
+    maxIntervalMs: 30000,
+    timeoutMs: 5 * 60 * 1000,
+};
+
+// Resolves after `ms`, or early (without rejecting) when the signal is aborted.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+    if (signal?.aborted) {
+        resolve();
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * A reusable class to interact with the Leonardo AI API.
+ */
+export class LeonardoAPI {
+    private readonly apiKey: string;
+    private readonly baseUrl: string;
+    private readonly fetch: FetchFunction;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly onRetry?: (event: RetryEvent) => void;
+    private readonly budget?: BudgetOptions;
+    private readonly validateParams: boolean;
+    // Credits charged (or, when the API did not say, estimated) for jobs started through this client.
+    private sessionSpend = 0;
+    // Estimates of jobs that passed the budget check but whose request has not returned yet. Counted against the
+    // session limit, so concurrent calls cannot all pass against the same total.
+    private reservedSpend = 0;
+    // The last charge seen per endpoint, used to estimate jobs the pricing calculator cannot price.
+    private readonly lastCharges = new Map<string, number>();
+    // Ids of variation outputs created through this client, so bare ids can be flagged as variations.
+    private readonly variationIds = new Set<string>();
+    // The user behind the API key, once GET /me has been called for the history endpoints.
+    private userId: string | null = null;
+    private readonly initImageCleanup?: InitImageCleanupPolicy;
+    // Init images uploaded while cleanup is enabled, mapped to whether a job has referenced them.
+    private readonly trackedInitImages = new Map<string, boolean>();
+    // Tracked init images per started job, deleted when the job finishes under the 'after-job' policy.
+    private readonly jobInitImages = new Map<string, string[]>();
+
+    constructor(apiKey: string, options: LeonardoAPIOptions = {}) {
+        // A proxy holds the key itself, so only direct access needs one.
+        if (!apiKey && !options.baseUrl) {
+            throw new Error('Leonardo API key is required.');
+        }
+        this.apiKey = apiKey;
+        this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+        // Looked up per call so a global fetch installed (or mocked) later is still used.
+        this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+        this.retryPolicy = options.retry === false
+            ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+            : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+        this.onRetry = options.onRetry;
+        this.budget = options.budget;
+        this.validateParams = options.validateParams ?? false;
+        this.initImageCleanup = options.initImageCleanup;
+    }
+
+    private async request<T>(endpoint: string, options: RequestInit = {}, requestOptions: RequestOptions = {}): Promise<T> {
+        const method = (options.method || 'GET').toUpperCase();
+        const idempotent = requestOptions.idempotent ?? method !== 'POST';
+        const maxAttempts = Math.max(1, this.retryPolicy.maxAttempts);
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.send<T>(endpoint, options);
+            } catch (error) {
+                const reason = this.getRetryReason(error as LeonardoAPIError, idempotent);
+                if (!reason || attempt >= maxAttempts) {
+                    throw error;
+                }
+                const delayMs = this.getRetryDelay(error as LeonardoAPIError, attempt);
+                this.onRetry?.({ endpoint, method, attempt, maxAttempts, delayMs, reason, error: error as LeonardoAPIError });
+                await sleep(delayMs);
+            }
+        }
+    }
+
+    private async send<T>(endpoint: string, options: RequestInit): Promise<T> {
+        const url = `${this.baseUrl}${endpoint}`;
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'accept': 'application/json',
+        };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        const config: RequestInit = {
+            ...options,
+            headers: { ...headers, ...options.headers },
+        };
+
+        let response: Response;
+        try {
+            response = await this.fetch(url, config);
+        } catch (error) {
+            console.error('Leonardo API network error:', error);
+            throw new LeonardoNetworkError(`Network error while calling ${endpoint}: ${(error as Error)?.message || error}`, { endpoint });
+        }
+
+        if (!response.ok) {
+            const error = createErrorFromResponse(endpoint, response, await response.text());
+            console.error('Leonardo API request error:', error);
+            throw error;
+        }
+        return await response.json() as T;
+    }
+
+    /**
+     * Decides whether a failed attempt may be retried.
+     * Non-idempotent requests are only retried when the server is known to have rejected them
+     * before doing any work (429); a 5xx or a dropped connection may mean the job was already accepted.
+     */
+    private getRetryReason(error: LeonardoAPIError, idempotent: boolean): RetryEvent['reason'] | null {
+        const policy = this.retryPolicy;
+        if (error instanceof LeonardoNetworkError) {
+            return idempotent && policy.retryNetworkErrors ? 'network-error' : null;
+        }
+        if (!(error instanceof LeonardoAPIError) || error.status === null || !policy.retryableStatuses.includes(error.status)) {
+            return null;
+        }
+        if (error instanceof LeonardoRateLimitError) {
+            return 'rate-limit';
+        }
+        return idempotent ? 'server-error' : null;
+    }
+
+    private getRetryDelay(error: LeonardoAPIError, attempt: number): number {
+        const policy = this.retryPolicy;
+        if (policy.respectRetryAfter && error instanceof LeonardoRateLimitError && error.retryAfter !== null) {
+            return Math.round(error.retryAfter * 1000);
+        }
+        const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+        const jitter = backoff * policy.jitter * (Math.random() * 2 - 1);
+        return Math.max(0, Math.round(backoff + jitter));
+    }
+
+    /**
+     * Retrieves the account behind the API key, including its user id and API credit balances.
+     * @returns A promise that resolves to the raw GET /me response.
+     */
+    public getUserInfo(): Promise<UserInfo> {
+        return this.request<UserInfo>('/me');
+    }
+
+    /**
+     * Retrieves the remaining API credits.
+     * @returns A promise that resolves to the user id and the paid, subscription and total API balances.
+     */
+    public async getAccountBalance(): Promise<AccountBalance> {
+        const response = await this.getUserInfo();
+        const details = response.user_details?.[0];
+        if (!details?.user?.id) {
+            throw new LeonardoAPIError('Failed to get user details from the response.', { endpoint: '/me', body: response });
+        }
+        const apiPaidTokens = details.apiPaidTokens ?? 0;
+        const apiSubscriptionTokens = details.apiSubscriptionTokens ?? 0;
+        return {
+            userId: details.user.id,
+            username: details.user.username,
+            apiPaidTokens,
+            apiSubscriptionTokens,
+            total: apiPaidTokens + apiSubscriptionTokens,
+        };
+    }
+
+    /**
+     * Asks the pricing calculator what a job would cost. Nothing is charged.
+     * @param params - The service and its parameters.
+     * @returns A promise that resolves to the calculated cost.
+     */
+    public calculatePrice(params: PricingCalculatorParams): Promise<PricingCalculatorResponse> {
+        // Pricing a job has no side effects, so it is safe to retry.
+        return this.request<PricingCalculatorResponse>('/pricing-calculator', {
+            method: 'POST',
+            body: JSON.stringify(params),
+        }, { idempotent: true });
+    }
+
+    /**
+     * Estimates the credit cost of a job without starting it.
+     * Image generations and image-to-video are priced by the pricing calculator; text-to-video uses the model's
+     * `creditCost` from MODEL_CONFIG. Anything else falls back to what this client was last charged for the same endpoint.
+     * @param request - The job to estimate.
+     * @returns A promise that resolves to the estimate; `cost` is null when nothing is known about the price.
+     */
+    public async estimateCost(request: CostEstimateRequest): Promise<CostEstimate> {
+        let endpoint: string;
+        let pricing: PricingCalculatorParams | null = null;
+        let modelCost: number | undefined;
+
+        switch (request.kind) {
+            case 'image':
+                endpoint = '/generations';
+                pricing = { service: 'IMAGE_GENERATION', serviceParams: { IMAGE_GENERATION: toImagePricingParams(request.params) } };
+                break;
+            case 'image-to-video':
+                endpoint = '/generations-motion-svd';
+                pricing = { service: 'MOTION_GENERATION', serviceParams: { MOTION_GENERATION: {} } };
+                break;
+            case 'text-to-video':
+                endpoint = '/generations-text-to-video';
+                modelCost = getModelConfig(request.params.model ?? 'MOTION2')?.creditCost;
+                break;
+            case 'variation':
+                endpoint = `/variations/${request.type}`;
+                break;
+            case 'model-training':
+                endpoint = '/models';
+                pricing = { service: 'MODEL_TRAINING', serviceParams: { MODEL_TRAINING: {} } };
+                break;
+        }
+
+        if (pricing) {
+            try {
+                const response = await this.calculatePrice(pricing);
+                const cost = response.calculateProductPrice?.cost;
+                if (typeof cost === 'number') {
+                    return { cost, source: 'pricing-calculator' };
+                }
+            } catch (error) {
+                // A rejected service schema is not worth failing the job over; fall back like unpriced endpoints.
+                if (!(error instanceof LeonardoValidationError)) {
+                    throw error;
+                }
+            }
+        }
+        if (modelCost !== undefined) {
+            return { cost: modelCost, source: 'model-config' };
+        }
+        const lastCharge = this.lastCharges.get(endpoint);
+        return lastCharge !== undefined ? { cost: lastCharge, source: 'last-charge' } : { cost: null, source: 'unknown' };
+    }
+
+    /**
+     * Returns the credits spent on jobs started through this client.
+     * Uses the charged `apiCreditCost` when the API reports one and the estimate otherwise.
+     */
+    public getSessionSpend(): number {
+        return this.sessionSpend;
+    }
+
+    /**
+     * Estimates a job and enforces the budget, if one is configured. The estimate is reserved until the job's
+     * request settles it through recordSpend or releases it through releaseOnFailure.
+     * @returns The estimated cost (null when unknown or when no budget is set).
+     * @throws LeonardoBudgetExceededError when the job would exceed a limit or the remaining balance.
+     */
+    private async checkBudget(endpoint: string, request: CostEstimateRequest): Promise<number | null> {
+        if (!this.budget) {
+            return null;
+        }
+        const { maxCostPerCall, maxSessionCost, checkBalance = true, allowUnknownCost = true } = this.budget;
+        const { cost } = await this.estimateCost(request);
+        const refuse = (reason: LeonardoBudgetExceededError['reason'], limit: number | null, message: string) => {
+            throw new LeonardoBudgetExceededError(message, { endpoint, reason, estimatedCost: cost, limit });
+        };
+
+        if (cost === null) {
+            if (!allowUnknownCost) {
+                refuse('unknown-cost', null, `The cost of ${endpoint} cannot be estimated, and the budget does not allow jobs of unknown cost.`);
+            }
+            return null;
+        }
+        if (maxCostPerCall !== undefined && cost > maxCostPerCall) {
+            refuse('per-call', maxCostPerCall, `This job is estimated at ${cost} credits, above the per-call limit of ${maxCostPerCall}.`);
+        }
+        const committed = this.sessionSpend + this.reservedSpend;
+        if (maxSessionCost !== undefined && committed + cost > maxSessionCost) {
+            refuse('session', maxSessionCost, `This job is estimated at ${cost} credits; with ${committed} already spent or reserved by running jobs it would exceed the session limit of ${maxSessionCost}.`);
+        }
+        // Reserve before the next await, so a concurrent call checks against this job too.
+        this.reservedSpend += cost;
+        if (checkBalance) {
+            try {
+                const { total } = await this.getAccountBalance();
+                // Running jobs have not been charged yet, so the balance does not include them.
+                if (this.reservedSpend > total) {
+                    refuse('balance', total, `This job is estimated at ${cost} credits, but only ${total} API credits are left for it and the jobs still starting.`);
+                }
+            } catch (error) {
+                this.reservedSpend -= cost;
+                throw error;
+            }
+        }
+        return cost;
+    }
+
+    // Replaces a job's reservation with what it was charged.
+    private recordSpend(endpoint: string, charged: number | undefined, estimate: number | null) {
+        if (typeof charged === 'number') {
+            this.lastCharges.set(endpoint, charged);
+        }
+        this.reservedSpend -= estimate ?? 0;
+        this.sessionSpend += charged ?? estimate ?? 0;
+    }
+
+    // Releases a job's reservation when its request fails.
+    private releaseOnFailure<T>(request: Promise<T>, estimate: number | null): Promise<T> {
+        return request.catch(error => {
+            this.reservedSpend -= estimate ?? 0;
+            throw error;
+        });
+    }
+
+    /**
+     * Initiates an image generation job.
+     * @param params - The parameters for the image generation.
+     * @param options - Whether to validate the params against MODEL_CONFIG first.
+     * @returns A promise that resolves to the initial response containing the generation ID.
+     * @throws LeonardoValidationError when validation is on and the params are invalid.
+     * @throws LeonardoBudgetExceededError when a budget is configured and the job exceeds it.
+     */
+    public async generateImage(params: GenerationParams, options: GenerateImageOptions = {}): Promise<InitialGenerationResponse> {
+        const endpoint = '/generations';
+        const modelName = params.modelId ? getModelNameById(params.modelId) : null;
+        if ((options.validate ?? this.validateParams) && modelName) {
+            const { errors, warnings } = validateGenerationParams(modelName, params);
+            if (errors.length > 0) {
+                const message = errors.map(issue => issue.message).join(' ');
+                throw new LeonardoValidationError(message, { endpoint, body: { field: errors[0].field, message, errors, warnings } });
+            }
+        }
+        const estimate = await this.checkBudget(endpoint, { kind: 'image', params });
+        const response = await this.releaseOnFailure(this.request<InitialGenerationResponse>(endpoint, {
+            method: 'POST',
+            body: JSON.stringify(params),
+        }), estimate);
+        this.recordSpend(endpoint, response.sdGenerationJob?.apiCreditCost, estimate);
+        this.recordInitImageUse(response.sdGenerationJob?.generationId, getReferencedInitImages(params));
+        return response;
+    }
+
+    /**
+     * Improves a prompt without generating anything, so the result can be reviewed before spending generation credits.
+     * With only `prompt`, a short prompt is expanded; with `promptInstructions`, the prompt is edited as instructed.
+     * @param params - The prompt and optional edit instructions.
+     * @returns A promise that resolves to the improved prompt.
+     */
+    public async improvePrompt(params: PromptImproveParams): Promise<PromptImproveResponse> {
+        const endpoint = '/prompt/improve';
+        const prompt = params.prompt?.trim() ?? '';
+        const promptInstructions = params.promptInstructions?.trim();
+        const fail = (field: string, message: string) => {
+            throw new LeonardoValidationError(message, { endpoint, body: { field, message } });
+        };
+
+        if (!prompt) {
+            fail('prompt', 'A prompt is required.');
+        }
+        if (!promptInstructions && prompt.length > PROMPT_IMPROVE_MAX_LENGTH) {
+            fail('prompt', `Prompts to improve can be at most ${PROMPT_IMPROVE_MAX_LENGTH} characters (got ${prompt.length}).`);
+        }
+
+        const response = await this.request<PromptImproveResponse>(endpoint, {
+            method: 'POST',
+            body: JSON.stringify(promptInstructions ? { prompt, promptInstructions } : { prompt }),
+        });
+        this.recordSpend(endpoint, response.promptGeneration?.apiCreditCost, null);
+        return response;
+    }
+
+    /**
+     * Initiates a text-to-video generation job.
+     * The params are checked against the model's `supports` block in MODEL_CONFIG before sending.
+     * @param params - The parameters for the video generation.
+     * @returns A promise that resolves to the initial response containing the generation ID.
+     */
+    public async generateTextToVideo(params: TextToVideoParams): Promise<InitialVideoGenerationResponse> {
+        const endpoint = '/generations-text-to-video';
+        const payload = resolveTextToVideoParams(params, endpoint);
+        const estimate = await this.checkBudget(endpoint, { kind: 'text-to-video', params: payload });
+        const response = await this.releaseOnFailure(this.request<InitialVideoGenerationResponse>(endpoint, {
+            method: 'POST',
+            body: JSON.stringify(payload),
+        }), estimate);
+        this.recordSpend(endpoint, response.motionVideoGenerationJob?.apiCreditCost, estimate);
+        return response;
+    }
+
+    /**
+     * Animates a still image with Motion (Stable Video Diffusion).
+     * `isInitImage`/`isVariation` are derived from the kind of image reference.
+     * @param params - The source image and motion settings.
+     * @returns A promise that resolves to the initial response containing the generation ID.
+     */
+    public async generateImageToVideo(params: ImageToVideoParams): Promise<InitialMotionGenerationResponse> {
+        const endpoint = '/generations-motion-svd';
+        const { motionStrength, isPublic } = params;
+        checkRange(endpoint, 'motionStrength', motionStrength, 1, 10, true);
+        const image = this.resolveImageReference(params.image);
+
+        const payload = {
+            imageId: image.id,
+            isInitImage: image.kind === 'uploaded',
+            isVariation: image.kind === 'variation',
+            ...(motionStrength !== undefined ? { motionStrength } : {}),
+            ...(isPublic !== undefined ? { isPublic } : {}),
+        };
+        const estimate = await this.checkBudget(endpoint, { kind: 'image-to-video', params });
+        const response = await this.releaseOnFailure(this.request<InitialMotionGenerationResponse>(endpoint, {
+            method: 'POST',
+            body: JSON.stringify(payload),
+        }), estimate);
+        this.recordSpend(endpoint, response.motionSvdGenerationJob?.apiCreditCost, estimate);
+        this.recordInitImageUse(response.motionSvdGenerationJob?.generationId, image.kind === 'uploaded' ? [image.id] : []);
+        return response;
+    }
+
+    /**
+     * Upscales an image with the Universal Upscaler.
+     * Mode-specific parameters are checked against their documented ranges before sending.
+     * @param params - The source image, mode (LEGACY or ULTRA) and upscale settings.
+     * @returns A promise that resolves to the started variation job.
+     */
+    public async universalUpscale(params: UniversalUpscaleParams): Promise<VariationJob> {
+        const endpoint = '/variations/universal-upscaler';
+        const { image, mode, upscaleMultiplier, creativityStrength, prompt } = params;
+        checkRange(endpoint, 'upscaleMultiplier', upscaleMultiplier, 1, 2);
+        checkRange(endpoint, 'creativityStrength', creativityStrength, 1, 10, true);
+
+        const payload: Record<string, unknown> = { upscaleMultiplier, creativityStrength, prompt };
+        if (params.mode === 'ULTRA') {
+            checkRange(endpoint, 'detailContrast', params.detailContrast, 1, 10, true);
+            checkRange(endpoint, 'similarity', params.similarity, 1, 10, true);
+            Object.assign(payload, {
+                ultraUpscaleStyle: params.ultraUpscaleStyle,
+                detailContrast: params.detailContrast,
+                similarity: params.similarity,
+            });
+        } else if (params.mode === 'LEGACY') {
+            Object.assign(payload, { upscalerStyle: params.upscalerStyle });
+        } else {
+            const message = `Unknown upscaler mode "${mode}". Use LEGACY or ULTRA.`;
+            throw new LeonardoValidationError(message, { endpoint, body: { field: 'mode', message } });
+        }
+        // Catch JS callers (or spread objects) mixing in parameters of the other mode.
+        const foreignFields = mode === 'ULTRA' ? ['upscalerStyle'] : ['ultraUpscaleStyle', 'detailContrast', 'similarity'];
+        const misplaced = foreignFields.filter(field => (params as unknown as Record<string, unknown>)[field] !== undefined);
+        if (misplaced.length > 0) {
+            const message = `${misplaced.join(', ')} cannot be used in ${mode} mode.`;
+            throw new LeonardoValidationError(message, { endpoint, body: { field: misplaced[0], message } });
+        }
+
+        const source = this.resolveImageReference(image);
+        const sourceField = { uploaded: 'initImageId', generated: 'generatedImageId', variation: 'variationId' }[source.kind];
+        payload[sourceField] = source.id;
+
+        const estimate = await this.checkBudget(endpoint, { kind: 'variation', type: 'universal-upscaler' });
+        const response = await this.releaseOnFailure(this.request<{ universalUpscaler?: { id: string; apiCreditCost?: number } }>(endpoint, {
+            method: 'POST',
+            body: JSON.stringify(payload),
+        }), estimate);
+        const job = this.trackVariation(endpoint, response.universalUpscaler, response, estimate);
+        this.recordInitImageUse(job.id, source.kind === 'uploaded' ? [source.id] : []);
+        return job;
+    }
+
+    /**
+     * Upscales a generated image with the simple (legacy) upscaler.
+     * @param image - The generated image to upscale.
+     * @returns A promise that resolves to the started variation job.
+     */
+    public async upscaleImage(image: ImageReference | string): Promise<VariationJob> {
+        const endpoint = '/variations/upscale';
+        const source = this.resolveImageReference(image);
+        if (source.kind !== 'generated') {
+            const message = 'The simple upscaler only accepts generated images. Use universalUpscale for uploaded images or variations.';
+            throw new LeonardoValidationError(message, { endpoint, body: { field: 'id', message } });
+        }
+        const estimate = await this.checkBudget(endpoint, { kind: 'variation', type: 'upscale' });
+        const response = await this.releaseOnFailure(this.request<{ sdUpscaleJob?: { id: string; apiCreditCost?: number } }>(endpoint, {
+            method: 'POST',
+            body: JSON.stringify({ id: source.id }),
+        }), estimate);
+        return this.trackVariation(endpoint, response.sdUpscaleJob, response, estimate);
+    }
+
+    /**
+     * Expands the canvas around an image (outpainting).
+     * @param image - The generated image or variation to unzoom.
+     * @returns A promise that resolves to the started variation job.
+     */
+    public async unzoomImage(image: ImageReference | string): Promise<VariationJob> {
+        const endpoint = '/variations/unzoom';
+        const source = this.resolveImageReference(image);
+        const estimate = await this.checkBudget(endpoint, { kind: 'variation', type: 'unzoom' });
+        const response = await this.releaseOnFailure(this.request<{ sdUnzoomJob?: { id: string; apiCreditCost?: number } }>(endpoint, {
+            method: 'POST',
+            body: JSON.stringify({ id: source.id, isVariation: source.kind === 'variation' }),
+        }), estimate);
+        return this.trackVariation(endpoint, response.sdUnzoomJob, response, estimate);
+    }
+
+    /**
+     * Removes the background of an image, producing a transparent PNG.
+     * @param image - The generated image or variation to process.
+     * @returns A promise that resolves to the started variation job.
+     */
+    public async removeBackground(image: ImageReference | string): Promise<VariationJob> {
+        const endpoint = '/variations/nobg';
+        const source = this.resolveImageReference(image);
+        const estimate = await this.checkBudget(endpoint, { kind: 'variation', type: 'nobg' });
+        const response = await this.releaseOnFailure(this.request<{ sdNobgJob?: { id: string; apiCreditCost?: number } }>(endpoint, {
+            method: 'POST',
+            body: JSON.stringify({ id: source.id, isVariation: source.kind === 'variation' }),
+        }), estimate);
+        return this.trackVariation(endpoint, response.sdNobgJob, response, estimate);
+    }
+
+    /**
+     * Retrieves the status and result of a variation job.
+     * @param variationId - The ID of the variation job to check.
+     * @returns A promise that resolves to the variation result.
+     */
+    public getVariationById(variationId: string): Promise<VariationResult> {
+        return this.request<VariationResult>(`/variations/${variationId}`);
+    }
+
+    /**
+     * Polls a variation job until it completes.
+     * @param variationId - The ID of the variation job to wait for.
+     * @param options - Polling interval, backoff, timeout, abort signal and progress callback.
+     * @returns A promise that resolves to the completed variation result.
+     * @throws LeonardoGenerationFailedError, LeonardoTimeoutError or LeonardoAbortError.
+     */
+    public waitForVariation(variationId: string, options: WaitForVariationOptions = {}): Promise<VariationResult> {
+        return this.releaseInitImagesWhenDone(variationId, this.pollUntilDone('Variation', variationId, `/variations/${variationId}`,
+            () => this.getVariationById(variationId),
+            result => result.generated_image_variation_generic?.find(variation => variation.id === variationId)?.status
+                ?? result.generated_image_variation_generic?.[0]?.status,
+            options));
+    }
+
+    // Bare ids are generated images unless this client produced them as variations.
+    private resolveImageReference(image: ImageReference | string): ImageReference {
+        if (typeof image !== 'string') {
+            return image;
+        }
+        return this.variationIds.has(image) ? { kind: 'variation', id: image } : { kind: 'generated', id: image };
+    }
+
+    private trackVariation(endpoint: string, job: { id: string; apiCreditCost?: number } | undefined, response: unknown, estimate: number | null): VariationJob {
+        if (!job?.id) {
+            // The job may have started anyway, so its estimate stays counted.
+            this.recordSpend(endpoint, undefined, estimate);
+            throw new LeonardoAPIError('Failed to get variation ID from the response.', { endpoint, body: response });
+        }
+        this.variationIds.add(job.id);
+        this.recordSpend(endpoint, job.apiCreditCost, estimate);
+        return { id: job.id, image: { kind: 'variation', id: job.id }, apiCreditCost: job.apiCreditCost };
+    }
+
+    /**
+     * Retrieves the status and result of a generation job.
+     * @param generationId - The ID of the generation job to check.
+     * @returns A promise that resolves to the generation result.
+     */
+    public getGenerationById(generationId: string): Promise<GenerationResult> {
+        return this.request<GenerationResult>(`/generations/${generationId}`);
+    }
+
+    /**
+     * Lists one page of a user's generations, newest first.
+     * @param options - The user (defaults to the key's owner), offset, page size and whether to fetch full details.
+     * @returns A promise that resolves to the generations on the page. Fewer than `limit` means it was the last page.
+     */
+    public async listGenerations(options: ListGenerationsOptions = {}): Promise<GenerationRecord[]> {
+        const { offset = 0, limit = 10, withDetails = false } = options;
+        const endpoint = '/generations/user';
+        checkRange(endpoint, 'offset', offset, 0, Number.MAX_SAFE_INTEGER, true);
+        checkRange(endpoint, 'limit', limit, 1, GENERATION_HISTORY_MAX_PAGE_SIZE, true);
+
+        const userId = options.userId ?? await this.getUserId();
+        const query = new URLSearchParams({ offset: String(offset), limit: String(limit) });
+        const response = await this.request<UserGenerationsResponse>(`${endpoint}/${encodeURIComponent(userId)}?${query}`);
+        const generations = response.generations ?? [];
+        if (!withDetails) {
+            return generations;
+        }
+        // One at a time, to stay clear of the rate limit on long histories.
+        const detailed: GenerationRecord[] = [];
+        for (const generation of generations) {
+            const result = await this.getGenerationById(generation.id);
+            detailed.push(result.generations_by_pk ?? generation);
+        }
+        return detailed;
+    }
+
+    /**
+     * Lists the models Leonardo currently offers to every account.
+     * Use syncModelCatalog (modelCatalog.ts) to compare them with MODEL_CONFIG.
+     * @returns A promise that resolves to the platform models.
+     */
+    public async listPlatformModels(): Promise<PlatformModel[]> {
+        const response = await this.request<PlatformModelsResponse>('/platformModels');
+        return response.custom_models ?? [];
+    }
+
+    /**
+     * Walks a user's whole generation history, newest first, requesting pages as they are consumed.
+     * @param options - The user, starting offset, page size, detail fetching and an abort signal.
+     * @returns An async iterator over every generation.
+     * @throws LeonardoAbortError when the signal is aborted between pages.
+     */
+    public async *iterateGenerations(options: IterateGenerationsOptions = {}): AsyncGenerator<GenerationRecord, void, undefined> {
+        const { pageSize = GENERATION_HISTORY_MAX_PAGE_SIZE, signal, ...listOptions } = options;
+        let offset = listOptions.offset ?? 0;
+        while (true) {
+            if (signal?.aborted) {
+                throw new LeonardoAbortError('Listing generations was aborted.', { endpoint: '/generations/user' });
+            }
+            const page = await this.listGenerations({ ...listOptions, offset, limit: pageSize });
+            yield* page;
+            if (page.length < pageSize) {
+                return;
+            }
+            offset += page.length;
+        }
+    }
+
+    private async getUserId(): Promise<string> {
+        if (!this.userId) {
+            this.userId = (await this.getAccountBalance()).userId;
+        }
+        return this.userId;
+    }
+
+    /**
+     * Polls a generation until it completes.
+     * @param generationId - The ID of the generation job to wait for.
+     * @param options - Polling interval, backoff, timeout, abort signal and progress callback.
+     * @returns A promise that resolves to the completed generation result.
+     * @throws LeonardoGenerationFailedError, LeonardoTimeoutError or LeonardoAbortError.
+     */
+    public waitForGeneration(generationId: string, options: WaitForGenerationOptions = {}): Promise<GenerationResult> {
+        return this.releaseInitImagesWhenDone(generationId, this.pollUntilDone('Generation', generationId, `/generations/${generationId}`,
+            () => this.getGenerationById(generationId),
+            result => result.generations_by_pk?.status,
+            options));
+    }
+
+    /**
+     * Deletes a generation and its images.
+     * @param generationId - The ID of the generation to delete.
+     * @returns A promise that resolves to the response echoing the deleted id.
+     */
+    public deleteGeneration(generationId: string): Promise<DeleteGenerationResponse> {
+        return this.request<DeleteGenerationResponse>(`/generations/${generationId}`, { method: 'DELETE' });
+    }
+
+    /**
+     * Deletes an uploaded init image. It can no longer be used for guidance or image-to-image afterwards.
+     * @param initImageId - The ID returned by uploadInitImage or getInitImageUploadUrl.
+     * @returns A promise that resolves to the response echoing the deleted id.
+     */
+    public async deleteInitImage(initImageId: string): Promise<DeleteInitImageResponse> {
+        const response = await this.request<DeleteInitImageResponse>(`/init-image/${initImageId}`, { method: 'DELETE' });
+        this.trackedInitImages.delete(initImageId);
+        return response;
+    }
+
+    /**
+     * Creates an empty dataset to collect training images in.
+     * @param params - The dataset's name and an optional description.
+     * @returns A promise that resolves to the response holding the new dataset's id.
+     * @throws LeonardoValidationError when the name is empty.
+     */
+    public async createDataset(params: CreateDatasetParams): Promise<CreateDatasetResponse> {
+        const endpoint = '/datasets';
+        if (!params.name?.trim()) {
+            const message = 'A dataset name is required.';
+            throw new LeonardoValidationError(message, { endpoint, body: { field: 'name', message } });
+        }
+        return this.request<CreateDatasetResponse>(endpoint, { method: 'POST', body: JSON.stringify(params) });
+    }
+
+    /**
+     * Retrieves a dataset and its images.
+     * @param datasetId - The ID returned by createDataset.
+     * @returns A promise that resolves to the dataset, or `datasets_by_pk: null` when it does not exist.
+     */
+    public getDataset(datasetId: string): Promise<DatasetResult> {
+        return this.request<DatasetResult>(`/datasets/${datasetId}`);
+    }
+
+    /**
+     * Deletes a dataset and its images. Models already trained on it are not affected.
+     * @param datasetId - The ID of the dataset to delete.
+     * @returns A promise that resolves to the response echoing the deleted id.
+     */
+    public deleteDataset(datasetId: string): Promise<DeleteDatasetResponse> {
+        return this.request<DeleteDatasetResponse>(`/datasets/${datasetId}`, { method: 'DELETE' });
+    }
+
+    /**
+     * Step 1 of 2 for adding an image to a dataset, like getInitImageUploadUrl for init images.
+     * @param datasetId - The dataset to add the image to.
+     * @param extension - The file extension of the image (e.g., "png", "jpg").
+     * @returns A promise that resolves to the presigned upload details.
+     */
+    public getDatasetImageUploadUrl(datasetId: string, extension: string): Promise<DatasetImageUploadResponse> {
+        // Repeating this call only leaves an unused presigned URL behind, so it is safe to retry.
+        return this.request<DatasetImageUploadResponse>(`/datasets/${datasetId}/upload`, {
+            method: 'POST',
+            body: JSON.stringify({ extension: extension.toLowerCase() }),
+        }, { idempotent: true });
+    }
+
+    /**
+     * Uploads a training image to a dataset in one call, with the same format detection and limits as uploadInitImage.
+     * @param datasetId - The dataset to add the image to.
+     * @param source - A Blob/File, ArrayBuffer, Uint8Array/Buffer, readable stream or (in Node) a file path.
+     * @param options - Optional size and dimension limits, checked before anything is uploaded.
+     * @returns A promise that resolves to the dataset image id.
+     * @throws LeonardoValidationError when the file is not a PNG, JPEG or WebP image or exceeds a limit.
+     * @throws LeonardoUploadError when the storage bucket rejects the upload.
+     */
+    public async uploadDatasetImage(datasetId: string, source: InitImageSource, options: UploadInitImageOptions = {}): Promise<string> {
+        const endpoint = `/datasets/${datasetId}/upload`;
+        const { bytes, info } = await this.readUploadImage(endpoint, source, options);
+        const response = await this.getDatasetImageUploadUrl(datasetId, info.extension);
+        const upload = response.uploadDatasetImage;
+        if (!upload?.id || !upload.url) {
+            throw new LeonardoAPIError('Failed to get upload details from the response.', { endpoint, body: response });
+        }
+        const file = new Blob([bytes], { type: info.mimeType });
+        await this.postToStorage(upload.url, JSON.parse(upload.fields), file, options.requireVerification ?? false);
+        return upload.id;
+    }
+
+    /**
+     * Copies an image generated on the account into a dataset, without downloading and uploading it again.
+     * @param datasetId - The dataset to add the image to.
+     * @param generatedImageId - The id of a generated image (not the generation).
+     * @returns A promise that resolves to the response holding the dataset image id.
+     */
+    public addGeneratedImageToDataset(datasetId: string, generatedImageId: string): Promise<DatasetImageFromGenerationResponse> {
+        return this.request<DatasetImageFromGenerationResponse>(`/datasets/${datasetId}/upload/gen`, {
+            method: 'POST',
+            body: JSON.stringify({ generatedImageId }),
+        });
+    }
+
+    /**
+     * Starts training a custom model on a dataset. Use waitForTraining to follow it; training takes a while.
+     * @param params - The model's name, dataset, instance prompt and training settings.
+     * @returns A promise that resolves to the initial response holding the custom model id.
+     * @throws LeonardoValidationError when a required field is missing or the resolution is not supported.
+     * @throws LeonardoBudgetExceededError when a budget is configured and the training exceeds it.
+     */
+    public async trainCustomModel(params: TrainCustomModelParams): Promise<TrainCustomModelResponse> {
+        const endpoint = '/models';
+        (['name', 'datasetId', 'instance_prompt'] as const).forEach(field => {
+            if (!params[field]?.trim()) {
+                const message = `${field} is required to train a custom model.`;
+                throw new LeonardoValidationError(message, { endpoint, body: { field, message } });
+            }
+        });
+        if (params.resolution !== undefined && !CUSTOM_MODEL_RESOLUTIONS.includes(params.resolution)) {
+            const message = `resolution must be one of ${CUSTOM_MODEL_RESOLUTIONS.join(', ')} (got ${params.resolution}).`;
+            throw new LeonardoValidationError(message, { endpoint, body: { field: 'resolution', message } });
+        }
+        const estimate = await this.checkBudget(endpoint, { kind: 'model-training' });
+        const response = await this.releaseOnFailure(this.request<TrainCustomModelResponse>(endpoint, {
+            method: 'POST',
+            body: JSON.stringify(params),
+        }), estimate);
+        this.recordSpend(endpoint, response.sdTrainingJob?.apiCreditCost, estimate);
+        return response;
+    }
+
+    /**
+     * Retrieves a custom model, including its training status.
+     * @param modelId - The custom model id from trainCustomModel.
+     * @returns A promise that resolves to the model, or `custom_models_by_pk: null` when it does not exist.
+     */
+    public getCustomModel(modelId: string): Promise<CustomModelResult> {
+        return this.request<CustomModelResult>(`/models/${modelId}`);
+    }
+
+    /**
+     * Lists the custom models trained on an account, including ones still training.
+     * @param userId - Defaults to the user behind the API key.
+     * @returns A promise that resolves to the custom models.
+     */
+    public async listCustomModels(userId?: string): Promise<CustomModel[]> {
+        const id = userId ?? await this.getUserId();
+        const response = await this.request<UserCustomModelsResponse>(`/models/user/${encodeURIComponent(id)}`);
+        return response.custom_models ?? [];
+    }
+
+    /**
+     * Polls a custom model until training completes, then registers it with registerCustomModel so it can be
+     * used by name like the models in MODEL_CONFIG.
+     * Training usually takes much longer than a generation, so consider a larger `timeoutMs` and `maxIntervalMs`.
+     * @param modelId - The custom model id from trainCustomModel.
+     * @param options - Polling interval, backoff, timeout, abort signal and progress callback.
+     * @returns A promise that resolves to the trained model.
+     * @throws LeonardoGenerationFailedError, LeonardoTimeoutError or LeonardoAbortError.
+     */
+    public async waitForTraining(modelId: string, options: WaitForTrainingOptions = {}): Promise<CustomModelResult> {
+        const result = await this.pollUntilDone('Training', modelId, `/models/${modelId}`,
+            () => this.getCustomModel(modelId),
+            result => result.custom_models_by_pk?.status,
+            options);
+        registerCustomModel(result.custom_models_by_pk!);
+        return result;
+    }
+
+    /**
+     * Deletes a custom model and removes it from the runtime model registry.
+     * @param modelId - The ID of the custom model to delete.
+     * @returns A promise that resolves to the response echoing the deleted id.
+     */
+    public async deleteCustomModel(modelId: string): Promise<DeleteCustomModelResponse> {
+        const response = await this.request<DeleteCustomModelResponse>(`/models/${modelId}`, { method: 'DELETE' });
+        const registeredName = getModelNameById(modelId);
+        if (registeredName) {
+            unregisterModel(registeredName);
+        }
+        return response;
+    }
+
+    /**
+     * Deletes a texture generation.
+     * @param textureGenerationId - The ID of the texture generation to delete.
+     * @returns A promise that resolves to the response echoing the deleted id.
+     */
+    public deleteTextureGeneration(textureGenerationId: string): Promise<DeleteTextureGenerationResponse> {
+        return this.request<DeleteTextureGenerationResponse>(`/generations-texture/${textureGenerationId}`, { method: 'DELETE' });
+    }
+
+    /**
+     * Lists the init images the cleanup tracker holds. Empty unless `initImageCleanup` is set.
+     * @returns The tracked init image ids and whether a job has referenced each one.
+     */
+    public getTrackedInitImages(): { id: string; used: boolean }[] {
+        return Array.from(this.trackedInitImages, ([id, used]) => ({ id, used }));
+    }
+
+    /**
+     * Deletes tracked init images according to the cleanup policy: the unused ones under 'unused',
+     * all remaining ones under 'after-job'. Call it when a session ends.
+     * @returns A promise that resolves to the deleted ids and the deletions that failed.
+     */
+    public cleanupInitImages(): Promise<InitImageCleanupResult> {
+        const ids = this.getTrackedInitImages()
+            .filter(image => this.initImageCleanup === 'after-job' || !image.used)
+            .map(image => image.id);
+        return this.deleteTrackedInitImages(ids);
+    }
+
+    private recordInitImageUse(jobId: string | undefined, initImageIds: string[]): void {
+        const tracked = initImageIds.filter(id => this.trackedInitImages.has(id));
+        tracked.forEach(id => this.trackedInitImages.set(id, true));
+        if (jobId && tracked.length > 0 && this.initImageCleanup === 'after-job') {
+            this.jobInitImages.set(jobId, tracked);
+        }
+    }
+
+    // Under 'after-job', deletes the job's init images once it completed or failed; timeouts and aborts keep them,
+    // since the job may still be running. Cleanup failures are logged rather than failing the wait.
+    private async releaseInitImagesWhenDone<T>(jobId: string, wait: Promise<T>): Promise<T> {
+        const release = async () => {
+            const initImageIds = this.jobInitImages.get(jobId);
+            if (!initImageIds) return;
+            this.jobInitImages.delete(jobId);
+            // Images that another unfinished job also refers to are kept for that job.
+            const stillNeeded = new Set(Array.from(this.jobInitImages.values()).flat());
+            await this.deleteTrackedInitImages(initImageIds.filter(id => !stillNeeded.has(id)));
+        };
+        try {
+            const result = await wait;
+            await release();
+            return result;
+        } catch (error) {
+            if (error instanceof LeonardoGenerationFailedError) {
+                await release();
+            }
+            throw error;
+        }
+    }
+
+    private async deleteTrackedInitImages(initImageIds: string[]): Promise<InitImageCleanupResult> {
+        const result: InitImageCleanupResult = { deleted: [], failed: [] };
+        for (const id of initImageIds) {
+            try {
+                await this.deleteInitImage(id);
+                result.deleted.push(id);
+            } catch (error) {
+                if (error instanceof LeonardoNotFoundError) {
+                    // Already gone, e.g. deleted elsewhere.
+                    this.trackedInitImages.delete(id);
+                    result.deleted.push(id);
+                } else {
+                    console.error(`Failed to delete init image ${id}:`, error);
+                    result.failed.push({ id, error: error as LeonardoAPIError });
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Polls until a job reports COMPLETE, shared by waitForGeneration, waitForVariation and waitForTraining.
+     */
+    private async pollUntilDone<T>(
+        label: string,
+        id: string,
+        endpoint: string,
+        fetchStatus: () => Promise<T>,
+        getStatus: (result: T) => JobStatus | undefined,
+        options: PollOptions<T>
+    ): Promise<T> {
+        const { intervalMs, backoffFactor, maxIntervalMs, timeoutMs } = { ...DEFAULT_WAIT_OPTIONS, ...options };
+        const { signal, onProgress } = options;
+        const deadline = Date.now() + timeoutMs;
+        let interval = intervalMs;
+
+        const checkAborted = () => {
+            if (signal?.aborted) {
+                throw new LeonardoAbortError(`Waiting for ${label.toLowerCase()} ${id} was aborted.`, { endpoint, generationId: id });
+            }
+        };
+
+        for (let attempt = 1; ; attempt++) {
+            checkAborted();
+            const result = await fetchStatus();
+            checkAborted();
+            onProgress?.(result, attempt);
+
+            const status = getStatus(result);
+            if (status === 'COMPLETE') {
+                return result;
+            }
+            if (status === 'FAILED') {
+                throw new LeonardoGenerationFailedError(`${label} ${id} failed.`, { endpoint, generationId: id, body: result });
+            }
+
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new LeonardoTimeoutError(`${label} ${id} did not complete within ${Math.round(timeoutMs / 1000)}s.`, { endpoint, generationId: id, body: result });
+            }
+            await sleep(Math.min(interval, remaining), signal);
+            interval = Math.min(maxIntervalMs, interval * backoffFactor);
+        }
+    }
+
+    /**
+     * Starts an image generation and waits for it to complete.
+     * @param params - The parameters for the image generation.
+     * @param options - Options passed on to waitForGeneration.
+     * @returns A promise that resolves to the completed generation result.
+     */
+    public async generateAndWait(params: GenerationParams, options: WaitForGenerationOptions = {}): Promise<GenerationResult> {
+        const initialResponse = await this.generateImage(params);
+        const generationId = initialResponse.sdGenerationJob?.generationId;
+        if (!generationId) {
+            throw new LeonardoAPIError('Failed to get generation ID from the initial response.', { endpoint: '/generations', body: initialResponse });
+        }
+        return this.waitForGeneration(generationId, options);
+    }
+
+    /**
+     * Step 1 of 2 for uploading an image for Image Guidance.
+     * Requests a presigned URL to upload an image to.
+     * @param extension - The file extension of the image (e.g., "png", "jpg").
+     * @returns A promise that resolves to the upload details.
+     */
+    public async getInitImageUploadUrl(extension: string): Promise<InitImageUploadResponse> {
+        const payload = {
+            extension: extension.toLowerCase()
+        };
+        // Repeating this call only leaves an unused presigned URL behind, so it is safe to retry.
+        const response = await this.request<InitImageUploadResponse>('/init-image', {
+            method: 'POST',
+            body: JSON.stringify(payload)
+        }, { idempotent: true });
+        if (this.initImageCleanup && response.uploadInitImage?.id) {
+            this.trackedInitImages.set(response.uploadInitImage.id, false);
+        }
+        return response;
+    }
+
+    /**
+     * Uploads an init image in one call and returns its id, for use as guidance or init image.
+     * The format is taken from the file's magic bytes, and the presigned URL is only requested once the file has been
+     * read and checked, so the upload starts well within the URL's two-minute expiry.
+     * @param source - A Blob/File, ArrayBuffer, Uint8Array/Buffer, readable stream or (in Node) a file path.
+     * @param options - Optional size and dimension limits, checked before anything is uploaded.
+     * @returns A promise that resolves to the init image id.
+     * @throws LeonardoValidationError when the file is not a PNG, JPEG or WebP image or exceeds a limit.
+     * @throws LeonardoUploadError when the storage bucket rejects the upload.
+     */
+    public async uploadInitImage(source: InitImageSource, options: UploadInitImageOptions = {}): Promise<string> {
+        const endpoint = '/init-image';
+        const { bytes, info } = await this.readUploadImage(endpoint, source, options);
+        const response = await this.getInitImageUploadUrl(info.extension);
+        const upload = response.uploadInitImage;
+        if (!upload?.id || !upload.url) {
+            throw new LeonardoAPIError('Failed to get upload details from the response.', { endpoint, body: response });
+        }
+        const file = new Blob([bytes], { type: info.mimeType });
+        await this.postToStorage(upload.url, JSON.parse(upload.fields), file, options.requireVerification ?? false);
+        return upload.id;
+    }
+
+    // Reads an image for a presigned upload and checks its format and the optional limits before anything is requested.
+    private async readUploadImage(endpoint: string, source: InitImageSource, options: UploadInitImageOptions) {
+        const fail = (message: string) => {
+            throw new LeonardoValidationError(message, { endpoint, body: { field: 'source', message } });
+        };
+
+        const bytes = await readImageSource(source);
+        const info = detectImageFormat(bytes);
+        if (!info) {
+            return fail('The file is not a PNG, JPEG or WebP image.');
+        }
+        const { maxBytes, maxWidth, maxHeight } = options;
+        if (maxBytes !== undefined && bytes.length > maxBytes) {
+            fail(`The image is ${bytes.length} bytes, above the limit of ${maxBytes}.`);
+        }
+        if (maxWidth !== undefined || maxHeight !== undefined) {
+            if (info.width === null || info.height === null) {
+                fail('Could not read the image dimensions to check them against the limits.');
+            }
+            if (maxWidth !== undefined && info.width! > maxWidth) {
+                fail(`The image is ${info.width}px wide, above the limit of ${maxWidth}px.`);
+            }
+            if (maxHeight !== undefined && info.height! > maxHeight) {
+                fail(`The image is ${info.height}px tall, above the limit of ${maxHeight}px.`);
+            }
+        }
+        return { bytes, info };
+    }
+
+    /**
+     * Sends a presigned POST to the storage bucket and checks its response.
+     * Browsers throw when the bucket's CORS rules hide the response; unless verification is required, the upload is
+     * then repeated in no-cors mode (overwriting the same key), which cannot be checked.
+     */
+    private async postToStorage(url: string, fields: Record<string, string>, file: Blob, requireVerification: boolean): Promise<void> {
+        const createForm = () => {
+            const formData = new FormData();
+            Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+            // The 'file' field must be the last one added to the form for S3 presigned POSTs.
+            formData.append('file', file);
+            return formData;
+        };
+
+        let response: Response;
+        try {
+            response = await this.fetch(url, { method: 'POST', body: createForm() });
+        } catch (error) {
+            if (typeof window === 'undefined' || requireVerification) {
+                throw new LeonardoNetworkError(`Upload to storage failed: ${(error as Error)?.message || error}`, { endpoint: url });
+            }
+            try {
+                await this.fetch(url, { method: 'POST', body: createForm(), mode: 'no-cors' });
+                return;
+            } catch {
+                throw new LeonardoNetworkError('Upload failed due to a network error.', { endpoint: url });
+            }
+        }
+
+        if (!response.ok) {
+            const body = await response.text();
+            // S3 explains failures in an XML <Message>, e.g. "Request has expired".
+            const reason = /<Message>([^<]*)<\/Message>/.exec(body)?.[1];
+            throw new LeonardoUploadError(`Storage rejected the upload with status ${response.status}${reason ? `: ${reason}` : ''}.`, {
+                endpoint: url,
+                status: response.status,
+                body,
+                requestId: response.headers.get('x-amz-request-id'),
+            });
+        }
     }
 
     /**
      * Step 2 of 2 for uploading an image.
      * Uploads the image file to the presigned S3 URL provided by Leonardo.
+     * Prefer uploadInitImage, which also works outside the browser and checks that the upload succeeded.
      * @param uploadUrl - The presigned URL from getInitImageUploadUrl.
      * @param fields - The form fields from getInitImageUploadUrl.
      * @param file - The image file to upload.
@@ -172,7 +2190,7 @@ export class LeonardoAPI {
             // The limitation is that we cannot read the response from the server,
             // so we can't confirm if the upload was successful. We proceed optimistically.
             // If the upload failed, the error will surface later during the image generation step.
-            await fetch(uploadUrl, {
+            await this.fetch(uploadUrl, {
                 method: 'POST',
                 body: formData,
                 mode: 'no-cors',
@@ -181,7 +2199,7 @@ export class LeonardoAPI {
             // This catch block handles network errors that prevent the request from being sent at all.
             console.error('S3 upload network error:', error);
             // Provide a generic error message as we can't be sure of the cause.
-            throw new Error('Upload failed due to a network error.');
+            throw new LeonardoNetworkError('Upload failed due to a network error.', { endpoint: uploadUrl });
         }
     }
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+// Compares Leonardo's live platform model list with MODEL_CONFIG, so retired, renamed or duplicated entries are
+// noticed, and registers platform models missing from MODEL_CONFIG in the runtime registry.
+
+import { LeonardoAPI, PlatformModel } from './leonardo';
+import { MODEL_CONFIG, ModelConfigEntry, createRuntimeModelEntry, registerModelById } from './modelConfig';
+
+export interface CatalogUnknownId {
+    modelName: string;
+    id: string;
+    // A platform model with the same name under another id, which usually means the entry needs the new id.
+    platformMatch: PlatformModel | null;
+}
+
+export interface CatalogDuplicateId {
+    id: string;
+    // Every MODEL_CONFIG entry using the id. Requests for any of them reach the same model.
+    modelNames: string[];
+}
+
+export interface CatalogRename {
+    id: string;
+    modelName: string;
+    platformName: string;
+}
+
+export interface CatalogReport {
+    checkedAt: string;
+    platformModelCount: number;
+    // MODEL_CONFIG entries whose id Leonardo no longer lists: retired, or re-released under a new id.
+    unknownIds: CatalogUnknownId[];
+    // Ids shared by more than one MODEL_CONFIG entry.
+    duplicateIds: CatalogDuplicateId[];
+    // MODEL_CONFIG entries whose id Leonardo lists under a different name.
+    renamed: CatalogRename[];
+    // Platform models without a MODEL_CONFIG entry.
+    missingFromConfig: PlatformModel[];
+    // Registry names of the missing models. Only filled in by syncModelCatalog.
+    registered: string[];
+}
+
+// Names are compared loosely, since Leonardo's display names vary in case and spacing.
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Compares platform models with a model config. Entries without an id (the video models) are not checked.
+ * @param platformModels - The result of listPlatformModels.
+ * @param config - The entries to check. Defaults to MODEL_CONFIG.
+ * @returns Unknown, duplicate and renamed ids, and the platform models the config lacks.
+ */
+export const reconcileModelCatalog = (platformModels: PlatformModel[], config: Record<string, ModelConfigEntry> = MODEL_CONFIG): CatalogReport => {
+    const platformById = new Map(platformModels.map(model => [model.id, model]));
+    const namesById = new Map<string, string[]>();
+    Object.entries(config).forEach(([name, entry]) => {
+        if (entry.id) namesById.set(entry.id, [...(namesById.get(entry.id) ?? []), name]);
+    });
+
+    const unknownIds: CatalogUnknownId[] = [];
+    const renamed: CatalogRename[] = [];
+    namesById.forEach((modelNames, id) => modelNames.forEach(modelName => {
+        const platformModel = platformById.get(id);
+        if (!platformModel) {
+            const platformMatch = platformModels.find(model => normalizeName(model.name) === normalizeName(modelName)) ?? null;
+            unknownIds.push({ modelName, id, platformMatch });
+        } else if (modelNames.length === 1 && normalizeName(platformModel.name) !== normalizeName(modelName)) {
+            renamed.push({ id, modelName, platformName: platformModel.name });
+        }
+    }));
+
+    return {
+        checkedAt: new Date().toISOString(),
+        platformModelCount: platformById.size,
+        unknownIds,
+        duplicateIds: Array.from(namesById, ([id, modelNames]) => ({ id, modelNames })).filter(({ modelNames }) => modelNames.length > 1),
+        renamed,
+        missingFromConfig: Array.from(platformById.values()).filter(model => !namesById.has(model.id)),
+        registered: [],
+    };
+};
+
+/**
+ * Fetches the platform models, compares them with MODEL_CONFIG and registers the missing ones, so
+ * getModelsForNodeType and the other lookup helpers offer them. Safe to call repeatedly.
+ * @param api - The client to list the models with.
+ * @returns The reconciliation report, with the registry names of the missing models in `registered`.
+ */
+export const syncModelCatalog = async (api: LeonardoAPI): Promise<CatalogReport> => {
+    const report = reconcileModelCatalog(await api.listPlatformModels());
+    report.registered = report.missingFromConfig.map(model => registerModelById(model.name, createRuntimeModelEntry(model.id, 'PLATFORM', 'discovered')));
+    return report;
+};
+
+/**
+ * Summarizes a report in a few lines, e.g. for logs or CI output.
+ */
+export const formatCatalogReport = (report: CatalogReport): string => {
+    const lines = [`${report.platformModelCount} platform models checked at ${report.checkedAt}.`];
+    report.unknownIds.forEach(({ modelName, id, platformMatch }) => lines.push(platformMatch
+        ? `${modelName}: id ${id} is not listed; Leonardo now lists it as ${platformMatch.id}.`
+        : `${modelName}: id ${id} is not listed (retired or renamed?).`));
+    report.duplicateIds.forEach(({ id, modelNames }) => lines.push(`${modelNames.join(', ')} share id ${id}.`));
+    report.renamed.forEach(({ modelName, platformName }) => lines.push(`${modelName} is listed as "${platformName}".`));
+    report.missingFromConfig.forEach(model => lines.push(`Not in MODEL_CONFIG: ${model.name} (${model.id}).`));
+    return lines.join('\n');
+};
@@ -0,0 +1,219 @@
+// Side-by-side model comparison.
+// Sends one prompt, seed and aspect ratio to several image models at once. Each model gets a request built for it
+// by GenerationRequestBuilder, so settings it does not support are left out rather than sent.
+
+import {
+    LeonardoAPI,
+    LeonardoAPIError,
+    GenerationParams,
+    ParamIssue,
+    WaitForGenerationOptions,
+    isRecord
+} from './leonardo';
+import { GenerationRequestBuilder } from './requestBuilder';
+import { getModelConfig } from './modelConfig';
+
+export interface ComparisonSettings {
+    prompt: string;
+    negativePrompt?: string;
+    // Shared by every model. planComparison picks a random one when it is left out.
+    seed?: number;
+    // One of ASPECT_RATIO_DIMENSIONS. Models without it keep their default size, which is reported as dropped.
+    aspectRatio: string;
+    // A name from IMAGE_GEN_STYLES. Only used by models that have Alchemy on.
+    style?: string;
+    // Only sent to models with a contrast setting.
+    contrast?: number;
+    // Left out: each model's default (Alchemy on where it is available).
+    alchemy?: boolean;
+    photoReal?: boolean;
+    enhancePrompt?: boolean;
+}
+
+export type ComparisonEntryStatus = 'pending' | 'running' | 'complete' | 'failed';
+
+export interface ComparisonEntry {
+    modelName: string;
+    // The payload sent to /generations. Null when the settings do not make a valid request for this model.
+    params: GenerationParams | null;
+    // Settings left out (or adjusted) because the model does not support them as given.
+    dropped: ParamIssue[];
+    status: ComparisonEntryStatus;
+    generationId: string | null;
+    images: { id: string; url: string }[];
+    apiCreditCost: number | null;
+    error: string | null;
+    // From sending the request to the finished result.
+    durationMs: number | null;
+}
+
+export interface ModelComparison {
+    version: 1;
+    createdAt: string;
+    // The settings as sent, with the seed filled in.
+    settings: ComparisonSettings & { seed: number };
+    entries: ComparisonEntry[];
+}
+
+export interface CompareModelsOptions {
+    // Passed on to waitForGeneration (interval, timeout, ...).
+    waitOptions?: Omit<WaitForGenerationOptions, 'signal'>;
+    // Cancels the generations still waiting; they end up failed with the abort message.
+    signal?: AbortSignal;
+    // Called whenever an entry changes. `index` is its position in `entries`.
+    onEntryUpdate?: (entry: ComparisonEntry, index: number) => void;
+}
+
+// Leonardo accepts seeds up to 2^31 - 1.
+const MAX_SEED = 2147483647;
+
+/**
+ * Builds the request one model would receive for the shared settings.
+ * @param modelName - An image generation model in MODEL_CONFIG.
+ * @param settings - The settings shared by the comparison.
+ * @returns The params and the settings dropped for this model.
+ * @throws LeonardoValidationError when the settings do not make a valid request for the model.
+ */
+export const buildComparisonRequest = (modelName: string, settings: ComparisonSettings): { params: GenerationParams; dropped: ParamIssue[] } => {
+    const builder = new GenerationRequestBuilder(modelName)
+        .prompt(settings.prompt)
+        .negativePrompt(settings.negativePrompt ?? '')
+        .seed(settings.seed)
+        .aspectRatio(settings.aspectRatio)
+        .imageCount(1);
+    if (settings.alchemy !== undefined) {
+        builder.alchemy(settings.alchemy);
+    }
+    if (settings.photoReal !== undefined) {
+        builder.photoReal(settings.photoReal);
+    }
+    if (settings.style !== undefined) {
+        builder.style(settings.style);
+    }
+    // A contrast chosen for one model can be below what another requires with Alchemy; it is raised rather than failing.
+    const adjusted: ParamIssue[] = [];
+    const supports = getModelConfig(modelName)?.supports;
+    let contrast = settings.contrast;
+    const minContrast = supports?.minAlchemyContrast;
+    if (contrast !== undefined && minContrast !== undefined && (settings.alchemy ?? supports?.alchemy) && contrast < minContrast) {
+        adjusted.push({ field: 'contrast', message: `${modelName} requires contrast of at least ${minContrast} with Alchemy, so ${minContrast} was used instead of ${contrast}.` });
+        contrast = minContrast;
+    }
+    if (contrast !== undefined) {
+        builder.contrast(contrast);
+    }
+    if (settings.enhancePrompt !== undefined) {
+        builder.enhancePrompt(settings.enhancePrompt);
+    }
+    const params = builder.build();
+    return { params, dropped: [...builder.getDroppedSettings(), ...adjusted] };
+};
+
+/**
+ * Prepares a comparison without sending anything, so the payloads can be reviewed first.
+ * Models whose request would be invalid get a failed entry with the reason.
+ * @param modelNames - The image generation models to compare.
+ * @param settings - The settings shared by all models.
+ * @returns A comparison with one pending entry per valid model.
+ */
+export const planComparison = (modelNames: string[], settings: ComparisonSettings): ModelComparison => {
+    const seed = settings.seed ?? Math.floor(Math.random() * MAX_SEED);
+    const resolved = { ...settings, seed };
+    const entries = modelNames.map((modelName): ComparisonEntry => {
+        const entry: ComparisonEntry = {
+            modelName, params: null, dropped: [], status: 'pending',
+            generationId: null, images: [], apiCreditCost: null, error: null, durationMs: null,
+        };
+        try {
+            return { ...entry, ...buildComparisonRequest(modelName, resolved) };
+        } catch (err: any) {
+            return { ...entry, status: 'failed', error: err?.message || String(err) };
+        }
+    });
+    return { version: 1, createdAt: new Date().toISOString(), settings: resolved, entries };
+};
+
+/**
+ * Runs the pending entries of a comparison, all at once. A model that fails does not stop the others.
+ * @param api - The client to generate with.
+ * @param comparison - A comparison from planComparison.
+ * @param options - Wait options, cancellation and progress updates.
+ * @returns The comparison with every entry complete or failed.
+ */
+export const runComparison = async (api: LeonardoAPI, comparison: ModelComparison, options: CompareModelsOptions = {}): Promise<ModelComparison> => {
+    const entries = [...comparison.entries];
+    const update = (index: number, changes: Partial<ComparisonEntry>) => {
+        entries[index] = { ...entries[index], ...changes };
+        options.onEntryUpdate?.(entries[index], index);
+    };
+
+    await Promise.all(entries.map(async (entry, index) => {
+        if (entry.status !== 'pending' || !entry.params) return;
+        const startedAt = Date.now();
+        update(index, { status: 'running' });
+        try {
+            const response = await api.generateImage(entry.params);
+            const generationId = response.sdGenerationJob?.generationId;
+            if (!generationId) {
+                throw new LeonardoAPIError('Failed to get generation ID from the initial response.', { endpoint: '/generations', body: response });
+            }
+            update(index, { generationId, apiCreditCost: response.sdGenerationJob?.apiCreditCost ?? null });
+            const result = await api.waitForGeneration(generationId, { ...options.waitOptions, signal: options.signal });
+            const images = (result.generations_by_pk?.generated_images ?? []).map(({ id, url }) => ({ id, url }));
+            update(index, { status: 'complete', images, durationMs: Date.now() - startedAt });
+        } catch (err: any) {
+            update(index, { status: 'failed', error: err?.message || String(err), durationMs: Date.now() - startedAt });
+        }
+    }));
+
+    return { ...comparison, entries };
+};
+
+/**
+ * Sends the same prompt, seed and aspect ratio to several models and waits for all of them.
+ * @param api - The client to generate with.
+ * @param modelNames - The image generation models to compare.
+ * @param settings - The settings shared by all models.
+ * @param options - Wait options, cancellation and progress updates.
+ * @returns The finished comparison, ready for exportComparison.
+ */
+export const compareModels = (api: LeonardoAPI, modelNames: string[], settings: ComparisonSettings, options: CompareModelsOptions = {}): Promise<ModelComparison> =>
+    runComparison(api, planComparison(modelNames, settings), options);
+
+/**
+ * Serializes a comparison for review later.
+ * Image URLs point at Leonardo's CDN, so the export stays small but needs those images to still exist.
+ */
+export const exportComparison = (comparison: ModelComparison): string => JSON.stringify(comparison, null, 2);
+
+/**
+ * Reads a comparison written by exportComparison.
+ * @throws Error when the text is not an exported comparison.
+ */
+export const parseComparison = (json: string): ModelComparison => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isComparison(parsed)) {
+        throw new Error('The file is not an exported model comparison.');
+    }
+    return parsed;
+};
+
+// Checks the parts of an export that are read back when showing it: the settings and each entry's model, status,
+// images and dropped settings.
+const isComparison = (value: unknown): value is ModelComparison =>
+    isRecord(value)
+    && value.version === 1
+    && isRecord(value.settings)
+    && typeof value.settings.prompt === 'string'
+    && typeof value.settings.aspectRatio === 'string'
+    && Array.isArray(value.entries)
+    && value.entries.every(entry => isRecord(entry)
+        && typeof entry.modelName === 'string'
+        && typeof entry.status === 'string'
+        && Array.isArray(entry.images)
+        && Array.isArray(entry.dropped));
@@ -19,12 +19,213 @@ export const ASPECT_RATIO_DIMENSIONS: { [key: string]: { width: number; height:
     '3:4': { width: 880, height: 1184 },
 };
 
+// Most images one POST /generations request may ask for (num_images)
+export const MAX_IMAGES_PER_GENERATION = 8;
+
 // Available contrast values for supported models
-export const CONTRAST_VALUES = [1.0, 1.3, 1.8, 2.5, 3.0, 3.5, 4.5];
+export const CONTRAST_VALUES = [1.0, 1.3, 1.8, 2.5, 3.0, 3.5, 4.0, 4.5];
+
+// strengthType values for guidance types that take a strength instead of a weight
+export const GUIDANCE_STRENGTH_TYPES: Record<string, string[]> = {
+    'Style Reference': ['Low', 'Mid', 'High', 'Ultra', 'Max'],
+    'Character Reference': ['Low', 'Mid', 'High'],
+    'Content Reference': ['Low', 'Mid', 'High'],
+};
+
+// presetStyle values accepted without Alchemy (API Guide, Table B); every other style requires alchemy: true
+export const NON_ALCHEMY_PRESET_STYLES = ['LEONARDO', 'NONE'];
 
 // Available video resolutions
 export const VIDEO_RESOLUTIONS = ['RESOLUTION_480', 'RESOLUTION_720'];
 
+// Categories of text-to-video styles and how many styles of each may be combined in one request
+export type VideoStyleCategory = 'Motion Control' | 'Vibe' | 'Lighting' | 'Shot Type';
+
+export const VIDEO_STYLE_CATEGORIES: Record<VideoStyleCategory, { maxSelections?: number }> = {
+    'Motion Control': { maxSelections: 1 }, // The camera can only perform one move per clip
+    'Vibe': {},
+    'Lighting': {},
+    'Shot Type': {},
+};
+
+export interface VideoStyleEntry {
+    id: string;
+    category: VideoStyleCategory;
+    models: string[]; // Video models (MODEL_CONFIG names) that accept this style
+}
+
+// Named styleIds for the text-to-video endpoint (API Guide, Table C)
+// The guide documents these for Motion 2.0 only, so VEO3 is left out until Leonardo lists styles for it.
+export const VIDEO_STYLES: Record<string, VideoStyleEntry> = {
+    // --- Motion Control ---
+    'Bullet Time': { id: 'fbed015e-594e-4f78-b4be-3b07142aaa1e', category: 'Motion Control', models: ['MOTION2'] },
+    'Crane Down': { id: '5a1d2a6a-7709-4097-9158-1b7ae6c9e647', category: 'Motion Control', models: ['MOTION2'] },
+    'Crane Up': { id: 'c765bd57-cdc5-4317-a600-69a8bd6c4ce6', category: 'Motion Control', models: ['MOTION2'] },
+    'Dolly In': { id: 'ece8c6a9-3deb-430e-8c93-4d5061b6adbf', category: 'Motion Control', models: ['MOTION2'] },
+    'Dolly Left': { id: 'f507880a-3fa8-4c3a-96bb-3ce3b70ac53b', category: 'Motion Control', models: ['MOTION2'] },
+    'Dolly Out': { id: '772cb36a-7d18-4250-b4aa-0c3f1a8431a0', category: 'Motion Control', models: ['MOTION2'] },
+    'Dolly Right': { id: '587a0109-30be-4781-a18e-e353b580fd10', category: 'Motion Control', models: ['MOTION2'] },
+    'Handheld': { id: '75722d13-108f-4cea-9471-cb7e5fc049fe', category: 'Motion Control', models: ['MOTION2'] },
+    'Orbit Left': { id: '74bea0cc-9942-4d45-9977-28c25078bfd4', category: 'Motion Control', models: ['MOTION2'] },
+    'Orbit Right': { id: 'aec24e36-a2e8-4fae-920c-127d276bbe4b', category: 'Motion Control', models: ['MOTION2'] },
+    'Tilt Down': { id: 'a1923b1b-854a-46a1-9e26-07c435098b87', category: 'Motion Control', models: ['MOTION2'] },
+    'Tilt Up': { id: '6ad6de1f-bd15-4d0b-ae0e-81d1a4c6c085', category: 'Motion Control', models: ['MOTION2'] },
+
+    // --- Vibe ---
+    'Clay': { id: '964d8a8f-865b-48c5-b79e-e75ae8727648', category: 'Vibe', models: ['MOTION2'] },
+    'Color Sketch': { id: '9cdfea2a-b4ab-4e97-a558-ec9fcb78f30a', category: 'Vibe', models: ['MOTION2'] },
+    'Logo': { id: '12b0d8c9-5cf8-4094-a3e5-6809bc269e21', category: 'Vibe', models: ['MOTION2'] },
+
+    // --- Lighting ---
+    'Backlight': { id: 'c39fe4f8-76d6-4aad-899b-e7ca5a4148f3', category: 'Lighting', models: ['MOTION2'] },
+    'Golden Hour': { id: '3f705252-1197-4f59-b6ed-21625dce6a65', category: 'Lighting', models: ['MOTION2'] },
+    'Low Key': { id: '1974bd47-75bb-499a-9c7a-354913904fcf', category: 'Lighting', models: ['MOTION2'] },
+    'Rainy': { id: 'fa347beb-6d70-482d-94a8-a70736e9e7f1', category: 'Lighting', models: ['MOTION2'] },
+    'Soft Light': { id: '746e70e5-ab4d-4f39-9057-75698cb64bc2', category: 'Lighting', models: ['MOTION2'] },
+    'Volumetric': { id: '92c2d8d4-9757-4cbf-88f3-d7ea54c425af', category: 'Lighting', models: ['MOTION2'] },
+
+    // --- Shot Type ---
+    'Bokeh': { id: '2e2669d5-4473-4ab9-b476-9f0a314bf661', category: 'Shot Type', models: ['MOTION2'] },
+    'Cinematic': { id: 'a0f4907f-8cd0-41de-b67c-460ec3a2bda0', category: 'Shot Type', models: ['MOTION2'] },
+    'Close Up': { id: 'ba6baeab-1a8f-4cb8-b0f5-efc13a805371', category: 'Shot Type', models: ['MOTION2'] },
+    'Overhead': { id: '8eb75811-5148-40ac-8abc-531e64f6e269', category: 'Shot Type', models: ['MOTION2'] },
+    'Spooky': { id: '49dfd828-5473-4594-9187-c6129aeaa4bf', category: 'Shot Type', models: ['MOTION2'] },
+};
+
+// Base models that Elements (LoRAs) are trained against
+export type ElementBaseModel = 'v1_5' | 'v2' | 'SDXL_1_0' | 'FLUX_DEV' | 'WAN21';
+
+export interface ElementEntry {
+    akUUID: string;
+    baseModel: ElementBaseModel;
+    defaultWeight: number;
+    minWeight: number;
+    maxWeight: number;
+}
+
+// Available Elements for the `elements` generation parameter (API Guide, Table D)
+export const ELEMENTS: Record<string, ElementEntry> = {
+    // --- SDXL 1.0 ---
+    'Sparklecore': { akUUID: '90fa02f2-fb7a-4c6a-bac2-4074dfab1a4a', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Solarpunk': { akUUID: 'f663d120-0692-4e0a-9917-36f92b034aef', baseModel: 'SDXL_1_0', defaultWeight: 0.7, minWeight: -2, maxWeight: 2 },
+    'Kids Illustration': { akUUID: 'e6f33e53-5e66-43eb-bc4d-6b89ed4e3280', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'White Ethereal': { akUUID: '68857120-f6fa-4333-b860-285e4cce218a', baseModel: 'SDXL_1_0', defaultWeight: 0.7, minWeight: -2, maxWeight: 2 },
+    'Toon & Anime': { akUUID: 'd5d5ce55-5f3b-4bea-bb37-df6a4b5f3519', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Colorful Scribbles': { akUUID: '5abf98fe-cad7-4335-9c62-88986c32138c', baseModel: 'SDXL_1_0', defaultWeight: 0.7, minWeight: -2, maxWeight: 2 },
+    'Folk Art Illustration': { akUUID: '62667fde-70da-4db5-b047-8c70b43c38e7', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Psychedelic Art': { akUUID: 'ffd28fd2-2a4b-4220-9778-882f6943b516', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Oldschool Comic': { akUUID: '12eb63cd-da9e-440a-958d-f09595829256', baseModel: 'SDXL_1_0', defaultWeight: 0.7, minWeight: -2, maxWeight: 2 },
+    'Fiery Flames': { akUUID: 'dbcb8b6a-f340-4cf8-b380-af0616e9c343', baseModel: 'SDXL_1_0', defaultWeight: 0.7, minWeight: -2, maxWeight: 2 },
+    'Modern Analog Photography': { akUUID: '8dac37a4-b3ee-404b-8198-17ed356b7afe', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Dragon Scales': { akUUID: '840f7698-2db2-4356-aa92-9444cea38223', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Cybertech': { akUUID: '3cc57e9b-dd82-44d7-8ecf-9e4a27d9d120', baseModel: 'SDXL_1_0', defaultWeight: 0.7, minWeight: -2, maxWeight: 3 },
+    'Glitch Art': { akUUID: '7e44ef18-f78e-46f3-8ac4-0cdc759372d5', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Soft Pastel Anime': { akUUID: '383a7d66-13a0-4225-96ec-d15f83ef9c37', baseModel: 'SDXL_1_0', defaultWeight: 0.7, minWeight: -2, maxWeight: 2 },
+    'Pop Surrealism': { akUUID: 'e3063098-09fb-46b7-90ba-c7b2eef6d824', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Rainbowcore': { akUUID: 'e4cbd583-f2ea-4be1-b9d5-b528344ac3d9', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'CGI Noir': { akUUID: '238c8691-713c-47c6-b43c-11a790d09dd8', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Simple Flat Illustration': { akUUID: '5f3e58d8-7af3-4d5b-92e3-a3d04b9a3414', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Coloring Book': { akUUID: 'd0ebdbf7-a570-4b93-8406-306bbb2a3469', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Soft Retro Futurism': { akUUID: '476a780a-66fc-495e-ac81-c6df1bf3f274', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Medieval Illustration': { akUUID: '4f8e206e-45a8-42b3-b68a-f537371157a7', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Dreamy Acrylics': { akUUID: '1980191d-9336-4eca-ae1b-c798f28a2b1a', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Cosmic Retro': { akUUID: '599f6886-02dc-46be-b7ab-61ed6da4946c', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Dopamine Illustration': { akUUID: '8077544e-e507-425e-ad0a-6250c42fd058', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Editorial Illustration': { akUUID: '0ad0fb54-4a78-4c7c-b143-7e818d242be1', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Vintage Christmas Illustration': { akUUID: '97746a20-7a01-4047-8a52-f3e9ec0744dd', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Fantasy Icons': { akUUID: '75d38510-3b93-4af9-b627-93a95f789328', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Digital Painting': { akUUID: '4248234d-345f-473a-b185-e172d7dbaa8b', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Celshaded Anime': { akUUID: '5aa85bbc-30bd-4c25-85e2-91a1ce56ae83', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Colorpop': { akUUID: '815de207-d352-4d46-9310-3fcd5324a7e2', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Glowwave': { akUUID: '90eb308a-8922-4c9a-98fc-869ef0714489', baseModel: 'SDXL_1_0', defaultWeight: 0.7, minWeight: -2, maxWeight: 2 },
+    'Game UI': { akUUID: '1f01e542-b8a9-44e7-bb9d-71fd86b59c8b', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Abstract Line Art': { akUUID: 'bf089a40-60cd-4ca0-8101-a10de44850b7', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    '3D Sculpt': { akUUID: 'e97f51ea-60dc-4763-a692-09200c843ac6', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Glasscore': { akUUID: 'a699f5da-f7f5-4afe-8473-c426b245c145', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Woodcut Illustration': { akUUID: '4fc2cb01-55f0-4f23-a317-f540c08eb548', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Infrared Photography': { akUUID: '82d12da5-ae30-4d0f-9a3f-0a35d74e487c', baseModel: 'SDXL_1_0', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Simple Icons': { akUUID: 'ec024a37-6fab-41ba-bc03-ab29ae0b9b5a', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Vintage Photography': { akUUID: '6e37fc81-eed7-4ae7-aa86-d4b719b2f098', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Dark Arts': { akUUID: '5db13b9c-0b0b-4684-87ca-01f59c97aae0', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Cute Emotes': { akUUID: 'd3a193ba-c69f-47d2-8759-583a729a2f26', baseModel: 'SDXL_1_0', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+
+    // --- Flux Dev ---
+    'Folk Art Illustration (Flux)': { akUUID: '92d23ed7-3f9c-4cfc-bfef-3237f17a6f7d', baseModel: 'FLUX_DEV', defaultWeight: 0.8, minWeight: -2, maxWeight: 2 },
+    'Abstract Line Art (Flux)': { akUUID: '93cec898-0fb0-4fb0-9f18-8b8423560a1d', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Medieval Illustration (Flux)': { akUUID: 'e3675262-c247-4f93-a9a8-eee7aaf45152', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Toon & Anime (Flux)': { akUUID: '7c040ea3-cbed-455d-825a-2657eea36aae', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Cute Handdrawn': { akUUID: 'bf8eff23-d537-4323-b3aa-396dfeee8776', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Retro Pastel': { akUUID: 'b1db3171-7f71-457d-aeb4-f810f6eb019d', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Oldschool Comic (Flux)': { akUUID: '28eb53a4-8da6-47c1-b73e-6541f4d65407', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'App Icon': { akUUID: '458a9a60-a6d9-46c7-b346-bd0a9103c219', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 }, // The guide lists "2 to 2", which excludes the default weight; assumed to be -2 to 2 like its siblings
+    'Vibrant Iridescence Painting': { akUUID: 'cff579f8-f93e-4d12-bf69-5fb186669ca0', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Wooden Craft': { akUUID: '613cf2d5-bc0b-4336-8efa-d25dc112c41f', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Dream Geometry': { akUUID: 'e6ef8eac-ba9f-4ca4-ab37-32ed1f09ede9', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Cardboard': { akUUID: '38641346-9360-4122-b721-49eef528502e', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Porcelain': { akUUID: '19f3fcf0-ee0a-4cab-a174-4ac2d032f617', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Chrome': { akUUID: '8a526c02-8dc0-4038-8c7e-544c3d34726b', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Soft Pastel Anime (Flux)': { akUUID: '27e28f9e-7431-44c8-b42a-98bcec4814c4', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Rough Sketch': { akUUID: '1b900d40-e593-4abb-92b5-04ce96403a44', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Grunge': { akUUID: '3dfa7774-1481-4ece-9fa3-d89c7ca35943', baseModel: 'FLUX_DEV', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+
+    // --- SD 1.5 ---
+    'Celtic Punk': { akUUID: '01b6184e-3905-4dc7-9ec6-4f09982536d5', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Crystalline': { akUUID: 'af983e1a-48f6-4b59-b45c-9d731be72901', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Ebony & Gold': { akUUID: '933191a8-76a5-444b-bafd-32c7b1f36f99', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Gingerbread': { akUUID: '20219ada-a74e-4d4c-acd0-d02933e56ca3', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Glass & Steel': { akUUID: 'ffbcdf0f-17ce-4cd7-905e-2a04e01f54fb', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Inferno': { akUUID: '9a3af8d7-c66c-4d32-b337-90af2bcf7d7f', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Ivory & Gold': { akUUID: '09d18d54-7846-4add-9b7f-97ac571d5a75', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Lunar Punk': { akUUID: '9a551dc4-1b79-43d1-9d48-2d0e454c5884', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Pirate Punk': { akUUID: '9317f294-f59e-4b20-801d-6a6352c6c0c7', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Tiki': { akUUID: '2f750d95-60d8-43e2-a84c-4cdfd22420ca', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Toxic Punk': { akUUID: '77a46ac2-ee81-4cb3-b050-4dd035ad6aa3', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Baroque': { akUUID: '66a7e05b-fad2-4c4a-a209-d69b2549d332', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+    'Biopunk': { akUUID: '2b95b214-3d9f-46db-ac3d-a019047ab520', baseModel: 'v1_5', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+
+    // --- SD 2 ---
+    'Surreal Collage': { akUUID: 'ca53dd41-c9ec-46b7-b906-2bcb61ad3273', baseModel: 'v2', defaultWeight: 1, minWeight: -1, maxWeight: 2 },
+
+    // --- Wan 2.1 (video) ---
+    '90s Retro Anime': { akUUID: '7f404d0b-432d-470f-be04-2867f83eb5b4', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Eyes In': { akUUID: '148b50d0-2040-4524-a36f-6e330f9e362e', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Crash Zoom In': { akUUID: 'b0191ad1-a723-439c-a4bc-a3f5d5884db3', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Robo Arm': { akUUID: '8df55fe2-5c6f-4dbf-8ade-eb997807ca0d', baseModel: 'WAN21', defaultWeight: 0.9, minWeight: -2, maxWeight: 2 },
+    'Claynimation': { akUUID: '649ddca4-fcef-4bb7-95fa-ef3c35110b14', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Crane Up': { akUUID: 'c765bd57-cdc5-4317-a600-69a8bd6c4ce6', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Medium Zoom In': { akUUID: 'f46d8e7f-e0ca-4f6a-90ab-141d731f47ae', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Felted': { akUUID: 'c1888bb5-2179-44fe-ba0b-47669c7c6f8f', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Super Dolly Out': { akUUID: '906b93f2-beb3-42be-9283-92236cc90ed6', baseModel: 'WAN21', defaultWeight: 0.9, minWeight: -2, maxWeight: 2 },
+    'Golden Age Cinema': { akUUID: '441054b6-2432-412a-8965-0225867638c1', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Orbit Left': { akUUID: '74bea0cc-9942-4d45-9977-28c25078bfd4', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Inkflow': { akUUID: 'aab9138e-40df-45cd-bc4a-8e32bf729854', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Handheld': { akUUID: '75722d13-108f-4cea-9471-cb7e5fc049fe', baseModel: 'WAN21', defaultWeight: 0.9, minWeight: -2, maxWeight: 2 },
+    'Vintage Black & White': { akUUID: '4179f8bd-ae74-47c8-974c-212691acde29', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Tilt Down': { akUUID: 'a1923b1b-854a-46a1-9e26-07c435098b87', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Moody Realism': { akUUID: 'b46deca6-b1fc-4798-b8f0-1916aef1ad81', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Lens Crack': { akUUID: '193da194-2632-4f6a-a1df-d03ca9ae0ea9', baseModel: 'WAN21', defaultWeight: 1.2, minWeight: -2, maxWeight: 2 },
+    'Oldschool Comic (WAN21)': { akUUID: '53d80166-fd48-42a6-9c94-f47482d0808f', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Crash Zoom Out': { akUUID: '1975ac74-92ca-46b3-81b3-6f191a9ae438', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Old VHS': { akUUID: '5d4de76c-5545-40de-ae7d-f7b4f73fe187', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Super Dolly In': { akUUID: 'a3992d78-34fc-44c6-b157-e2755d905197', baseModel: 'WAN21', defaultWeight: 0.9, minWeight: -2, maxWeight: 2 },
+    'Simple Flat Animation': { akUUID: '05667d3a-f47f-441c-9653-e13c0744129b', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Bullet Time': { akUUID: 'fbed015e-594e-4f78-b4be-3b07142aaa1e', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Dolly In': { akUUID: 'ece8c6a9-3deb-430e-8c93-4d5061b6adbf', baseModel: 'WAN21', defaultWeight: 1.2, minWeight: -2, maxWeight: 2 },
+    'Dolly Left': { akUUID: 'f507880a-3fa8-4c3a-96bb-3ce3b70ac53b', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Dolly Right': { akUUID: '587a0109-30be-4781-a18e-e353b580fd10', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Soft Infrared': { akUUID: '51ea1289-394d-4b2c-9fcc-feffa0292193', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Crane Over Head': { akUUID: '1054d533-168c-4821-bd3d-a56182afa4f3', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Stylized 3Dtoon': { akUUID: 'b295930d-625b-4490-9580-fca498568231', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Y2K Analog': { akUUID: '4abcbeef-c9ed-48bd-b270-48ad1dfc16e9', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Explosion': { akUUID: '65da803d-c015-495a-8d5c-e969a79c9894', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Dolly Out': { akUUID: '772cb36a-7d18-4250-b4aa-0c3f1a8431a0', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Crane Down': { akUUID: '5a1d2a6a-7709-4097-9158-1b7ae6c9e647', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Disintegration': { akUUID: 'a51e2e8d-ba5e-44f2-9e00-3d86fd93c9bc', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Orbit Right': { akUUID: 'aec24e36-a2e8-4fae-920c-127d276bbe4b', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Tilt Up': { akUUID: '6ad6de1f-bd15-4d0b-ae0e-81d1a4c6c085', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+    'Synthwave': { akUUID: '427fe84f-a3fa-4d9f-b780-124165e435ed', baseModel: 'WAN21', defaultWeight: 1, minWeight: -2, maxWeight: 2 },
+};
+
 
 // --- MODEL-SPECIFIC CONFIGURATIONS ---
 
@@ -38,11 +239,15 @@ interface ModelSupports {
     promptEnhance?: boolean;
     resolutions?: string[];
     frameInterpolation?: boolean;
+    elements?: ElementBaseModel; // Base model whose Elements can be applied
+    minAlchemyContrast?: number; // Lowest contrast accepted when alchemy is on
+    imageToImage?: boolean; // Accepts init_image_id / init_generation_image_id as a starting image
+    maxImages?: number; // Set when the model allows fewer than MAX_IMAGES_PER_GENERATION images per request
 }
 
 // Interface for a model's default settings
 interface ModelDefaults {
-    strength?: number;
+    strength?: number; // init_strength for image-to-image
     style?: string;
     contrast?: number;
     numImages?: number;
@@ -59,6 +264,9 @@ export interface ModelConfigEntry {
     family: string;
     supports: ModelSupports;
     defaults: ModelDefaults;
+    creditCost?: number; // Approximate credits per job, for endpoints the pricing calculator cannot price
+    discovered?: boolean; // Registered at runtime (a platform or trained custom model); `supports` is a conservative guess
+    label?: string; // Shown after the name in model lists, e.g. 'custom' for trained custom models
 }
 
 // Defines the detailed configuration for each available model.
@@ -103,6 +311,7 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
         supports: {
             contrast: true,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            elements: 'FLUX_DEV',
             guidance: {
                 'Style Reference': { preprocessorId: 299, maxInputs: 4, usesWeight: false },
                 'Content Reference': { preprocessorId: 233, maxInputs: 1, usesWeight: false }
@@ -143,6 +352,7 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
         supports: {
             alchemy: true,
             contrast: true,
+            minAlchemyContrast: 2.5,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
             guidance: {
                 'Style Reference': { preprocessorId: 166, maxInputs: 4, usesWeight: false },
@@ -164,6 +374,7 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
         supports: {
             alchemy: true,
             contrast: true,
+            minAlchemyContrast: 2.5,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
             guidance: {
                 'Style Reference': { preprocessorId: 166, maxInputs: 4, usesWeight: false },
@@ -188,6 +399,8 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            elements: 'SDXL_1_0',
+            imageToImage: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4, usesWeight: false },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1, usesWeight: false },
@@ -206,6 +419,8 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            elements: 'SDXL_1_0',
+            imageToImage: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4, usesWeight: false },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1, usesWeight: false },
@@ -224,6 +439,8 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
             alchemy: true,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            elements: 'SDXL_1_0',
+            imageToImage: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4, usesWeight: false },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1, usesWeight: false },
@@ -242,6 +459,8 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            elements: 'SDXL_1_0',
+            imageToImage: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4, usesWeight: false },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1, usesWeight: false },
@@ -260,6 +479,8 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
             alchemy: true,
             contrast: false, // Vision uses Alchemy but doesn't have the contrast setting
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            elements: 'SDXL_1_0',
+            imageToImage: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4, usesWeight: false },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1, usesWeight: false },
@@ -280,6 +501,8 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            elements: 'SDXL_1_0',
+            imageToImage: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4, usesWeight: false },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1, usesWeight: false },
@@ -298,6 +521,8 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
             alchemy: false,
             contrast: false,
             aspectRatios: Object.keys(ASPECT_RATIO_DIMENSIONS),
+            elements: 'SDXL_1_0',
+            imageToImage: true,
             guidance: {
                 'Style Reference': { preprocessorId: 67, maxInputs: 4, usesWeight: false },
                 'Character Reference': { preprocessorId: 133, maxInputs: 1, usesWeight: false },
@@ -356,7 +581,8 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
             resolution: 'RESOLUTION_480',
             frameInterpolation: false,
             promptEnhance: false,
-        }
+        },
+        creditCost: 200, // Standard clip cost quoted in the API Guide (1.3)
     },
     "VEO3": {
         id: null, // No model ID for this API endpoint
@@ -371,47 +597,115 @@ export const MODEL_CONFIG: Record<string, ModelConfigEntry> = {
             resolution: 'RESOLUTION_720',
             frameInterpolation: false,
             promptEnhance: false,
-        }
+        },
+        creditCost: 4000, // Premium model, quoted in the API Guide (1.3)
     }
 };
 
+// --- Runtime model registry ---
+
+// MODEL_CONFIG plus models registered at runtime, e.g. platform models found by syncModelCatalog (modelCatalog.ts).
+// The lookup helpers below read from here; MODEL_CONFIG itself never changes.
+const modelRegistry: Record<string, ModelConfigEntry> = { ...MODEL_CONFIG };
+
+// Add a model under a new name; names already registered are left alone. Returns whether it was added.
+export const registerModel = (modelName: string, entry: ModelConfigEntry): boolean => {
+    if (modelRegistry[modelName]) return false;
+    modelRegistry[modelName] = entry;
+    return true;
+};
+
+// Register a model found at runtime (a platform or custom model) and return its registry name.
+// A model already registered under the same id keeps its name; a name another model uses gets the start of the id appended.
+export const registerModelById = (modelName: string, entry: ModelConfigEntry & { id: string }): string => {
+    const existing = Object.keys(modelRegistry).find(name => modelRegistry[name].id === entry.id);
+    if (existing) return existing;
+    const name = modelRegistry[modelName.trim()] ? `${modelName.trim()} (${entry.id.slice(0, 8)})` : modelName.trim();
+    modelRegistry[name] = entry;
+    return name;
+};
+
+// Describe a model found at runtime for registerModelById. Nothing is known about what it supports, so it gets square
+// images without Alchemy, contrast, guidance or Elements; a MODEL_CONFIG entry unlocks more.
+export const createRuntimeModelEntry = (modelId: string, family: string, label: string): ModelConfigEntry & { id: string } => ({
+    id: modelId,
+    nodeType: 'image-generation',
+    family,
+    supports: {
+        alchemy: false,
+        contrast: false,
+        aspectRatios: ['1:1'],
+    },
+    defaults: {},
+    discovered: true,
+    label,
+});
+
+// Remove a model registered at runtime; MODEL_CONFIG entries stay. Returns whether it was removed.
+export const unregisterModel = (modelName: string): boolean => {
+    if (MODEL_CONFIG[modelName] || !modelRegistry[modelName]) return false;
+    delete modelRegistry[modelName];
+    return true;
+};
+
+// Get every registered model, MODEL_CONFIG entries first
+export const getRegisteredModels = (): Record<string, ModelConfigEntry> => ({ ...modelRegistry });
+
+// Remove every model registered at runtime
+export const resetModelRegistry = () => {
+    Object.keys(modelRegistry)
+        .filter(name => !MODEL_CONFIG[name])
+        .forEach(name => delete modelRegistry[name]);
+};
+
 // Helper functions for accessing model configuration
 export const getModelsForNodeType = (nodeType: 'image-generation' | 'image-edit' | 'text-to-video') => {
-    return Object.keys(MODEL_CONFIG).filter(modelName => {
-        const config = MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG];
+    return Object.keys(modelRegistry).filter(modelName => {
+        const config = modelRegistry[modelName];
         return config.nodeType === nodeType;
     });
 };
 
 // Get model ID by name
 export const getModelId = (modelName: string): string | null => {
-    const config = MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG];
+    const config = modelRegistry[modelName];
     return config?.id || null;
 };
 
+// Get model name by ID (models sharing an ID resolve to the first entry)
+export const getModelNameById = (modelId: string): string | null => {
+    return Object.keys(modelRegistry).find(name => modelRegistry[name].id === modelId) || null;
+};
+
 // Get model configuration by name
 export const getModelConfig = (modelName: string): ModelConfigEntry | null => {
-    return MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG] || null;
+    return modelRegistry[modelName] || null;
 };
 
 // Get guidance support for a model
 export const getModelGuidanceSupport = (modelName: string) => {
-    const config = MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG];
+    const config = modelRegistry[modelName];
     return config?.supports?.guidance || {};
 };
 
 // Check if model supports a feature
 export const modelSupports = (modelName: string, feature: keyof ModelSupports): boolean => {
-    const config = MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG];
+    const config = modelRegistry[modelName];
     return !!config?.supports?.[feature];
 };
 
 // Get model defaults
 export const getModelDefaults = (modelName: string) => {
-    const config = MODEL_CONFIG[modelName as keyof typeof MODEL_CONFIG];
+    const config = modelRegistry[modelName];
     return config?.defaults || {};
 };
 
+// Most images a model generates per request
+export const getMaxImages = (modelName: string): number => {
+    const config = modelRegistry[modelName];
+    return Math.min(config?.supports?.maxImages ?? MAX_IMAGES_PER_GENERATION, MAX_IMAGES_PER_GENERATION);
+};
+
 // Legacy compatibility - exports that match current constants.tsx usage
 export const MODEL_ID_MAP: Record<string, string> = Object.fromEntries(
     Object.entries(MODEL_CONFIG)
@@ -423,4 +717,97 @@ export const MODEL_GUIDANCE_SUPPORT: Record<string, Record<string, { preprocesso
     Object.entries(MODEL_CONFIG)
         .filter(([_, config]) => config.supports?.guidance)
         .map(([name, config]) => [name, config.supports!.guidance!])
-);
\ No newline at end of file
+);
+
+// --- Video style helpers ---
+
+// Get a video style's UUID by name
+export const getVideoStyleId = (styleName: string): string | null => {
+    return VIDEO_STYLES[styleName]?.id || null;
+};
+
+// Get a video style's name by UUID
+export const getVideoStyleName = (styleId: string): string | null => {
+    return Object.keys(VIDEO_STYLES).find(name => VIDEO_STYLES[name].id === styleId) || null;
+};
+
+// Resolve style names to the UUIDs expected by `styleIds` (unknown names are skipped)
+export const resolveVideoStyleIds = (styleNames: string[]): string[] => {
+    return styleNames.map(getVideoStyleId).filter((id): id is string => id !== null);
+};
+
+// Get the style names available for a video model, grouped by category
+export const getVideoStylesByCategory = (modelName: string): Record<VideoStyleCategory, string[]> => {
+    const grouped = Object.fromEntries(
+        Object.keys(VIDEO_STYLE_CATEGORIES).map(category => [category, [] as string[]])
+    ) as Record<VideoStyleCategory, string[]>;
+    Object.entries(VIDEO_STYLES)
+        .filter(([_, style]) => style.models.includes(modelName))
+        .forEach(([name, style]) => grouped[style.category].push(name));
+    return grouped;
+};
+
+// Check a style selection against the model and the per-category limits; returns a list of problems (empty if valid)
+export const validateVideoStyles = (modelName: string, styleNames: string[]): string[] => {
+    const errors: string[] = [];
+    const counts: Partial<Record<VideoStyleCategory, number>> = {};
+
+    styleNames.forEach(name => {
+        const style = VIDEO_STYLES[name];
+        if (!style) {
+            errors.push(`Unknown video style "${name}".`);
+            return;
+        }
+        if (!style.models.includes(modelName)) {
+            errors.push(`Video style "${name}" is not available for ${modelName}.`);
+        }
+        counts[style.category] = (counts[style.category] || 0) + 1;
+    });
+
+    (Object.keys(counts) as VideoStyleCategory[]).forEach(category => {
+        const max = VIDEO_STYLE_CATEGORIES[category].maxSelections;
+        if (max !== undefined && counts[category]! > max) {
+            errors.push(`Only ${max} ${category} style${max === 1 ? '' : 's'} can be used at a time.`);
+        }
+    });
+
+    return errors;
+};
+
+// --- Element helpers ---
+
+// Get the names of Elements compatible with a model
+export const getElementsForModel = (modelName: string): string[] => {
+    const baseModel = modelRegistry[modelName]?.supports?.elements;
+    if (!baseModel) return [];
+    return Object.keys(ELEMENTS).filter(name => ELEMENTS[name].baseModel === baseModel);
+};
+
+// Get an Element's name by akUUID
+export const getElementName = (akUUID: string): string | null => {
+    return Object.keys(ELEMENTS).find(name => ELEMENTS[name].akUUID === akUUID) || null;
+};
+
+// Check Elements against the model and their weight ranges; returns a list of problems (empty if valid)
+// akUUIDs missing from the catalog (e.g. user-trained Elements) are not checked.
+export const validateElements = (modelName: string, elements: { akUUID: string; weight: number }[]): string[] => {
+    const errors: string[] = [];
+    const baseModel = modelRegistry[modelName]?.supports?.elements;
+
+    if (elements.length > 0 && !baseModel) {
+        errors.push(`${modelName} does not support Elements.`);
+        return errors;
+    }
+    elements.forEach(({ akUUID, weight }) => {
+        const name = getElementName(akUUID);
+        if (!name) return;
+        const element = ELEMENTS[name];
+        if (element.baseModel !== baseModel) {
+            errors.push(`Element "${name}" requires a ${element.baseModel} model, but ${modelName} uses ${baseModel}.`);
+        }
+        if (weight < element.minWeight || weight > element.maxWeight) {
+            errors.push(`Element "${name}" weight must be between ${element.minWeight} and ${element.maxWeight} (got ${weight}).`);
+        }
+    });
+    return errors;
+};
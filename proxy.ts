@@ -0,0 +1,464 @@
+// Backend proxy for the Leonardo AI API (Node.js only).
+// Browsers talk to this server instead of cloud.leonardo.ai, so the API key stays in server config
+// and CORS is under our control. Routes mirror Leonardo's REST paths, which lets a LeonardoAPI
+// client use the proxy by setting `baseUrl` and no key.
+
+import { IncomingMessage, ServerResponse } from 'node:http';
+import {
+    LeonardoAPI,
+    LeonardoAPIOptions,
+    LeonardoAPIError,
+    LeonardoRateLimitError,
+    LeonardoValidationError,
+    LeonardoBudgetExceededError,
+    LeonardoNetworkError,
+    GenerationParams,
+    ImageReference,
+    LegacyUpscalerStyle,
+    PricingCalculatorParams,
+    PromptImproveParams,
+    TextToVideoParams,
+    UltraUpscaleStyle,
+    UniversalUpscaleParams,
+    VariationJob,
+    isRecord
+} from './leonardo';
+import { StandaloneServer, hasBearerToken, readBody, respondJson } from './httpServer';
+
+export type ProxyRouteName =
+    | 'generate'
+    | 'getGeneration'
+    | 'deleteGeneration'
+    | 'listGenerations'
+    | 'textToVideo'
+    | 'imageToVideo'
+    | 'initImage'
+    | 'deleteInitImage'
+    | 'upscale'
+    | 'unzoom'
+    | 'nobg'
+    | 'universalUpscaler'
+    | 'getVariation'
+    | 'me'
+    | 'platformModels'
+    | 'listCustomModels'
+    | 'getCustomModel'
+    | 'pricingCalculator'
+    | 'improvePrompt';
+
+export interface ProxyRateLimit {
+    // Requests each client may make per window.
+    maxRequests: number;
+    windowMs: number;
+}
+
+export interface ProxyServerOptions {
+    // The Leonardo API key. It is only used server-side and never sent to clients.
+    apiKey: string;
+    // Options for the LeonardoAPI client behind the proxy, e.g. retries or a credit budget.
+    apiOptions?: Omit<LeonardoAPIOptions, 'baseUrl'>;
+    // Prefix of every route. Defaults to '/api/leonardo'.
+    basePath?: string;
+    // Maximum accepted request body size in bytes. Defaults to 64 KB.
+    maxBodyBytes?: number;
+    // Per-client request limit, or false to disable. Defaults to 60 requests per minute.
+    rateLimit?: ProxyRateLimit | false;
+    // Narrows (or widens) the body fields each POST route accepts. Defaults to DEFAULT_PROXY_ALLOWED_PARAMS.
+    allowedParams?: Partial<Record<ProxyRouteName, string[]>>;
+    // Origins allowed to call the proxy from a browser, or '*'. Defaults to none (same-origin only).
+    // Requests from any other origin are rejected with 403.
+    allowedOrigins?: string[] | '*';
+    // Shared secret clients must send as `Authorization: Bearer <token>`, e.g. as the key of a LeonardoAPI pointed at
+    // the proxy. Requests without it are rejected with 401. Off by default.
+    accessToken?: string;
+    // Identifies a client for rate limiting. Defaults to the remote address.
+    getClientId?: (req: IncomingMessage) => string;
+}
+
+// Body fields each POST route passes on to Leonardo. Requests with any other field are rejected with 400.
+export const DEFAULT_PROXY_ALLOWED_PARAMS: Partial<Record<ProxyRouteName, string[]>> = {
+    generate: [
+        'prompt', 'negative_prompt', 'modelId', 'width', 'height', 'num_images', 'alchemy', 'photoReal',
+        'photoRealVersion', 'photoRealStrength', 'contrastRatio', 'presetStyle', 'guidance_scale',
+        'num_inference_steps', 'seed', 'highContrast', 'contrast', 'enhancePrompt', 'enhancePromptInstructions',
+        'init_image_id', 'init_generation_image_id', 'init_strength', 'imagePromptWeight', 'controlnets',
+        'contextImages', 'elements',
+    ],
+    textToVideo: ['prompt', 'negativePrompt', 'model', 'resolution', 'width', 'height', 'frameInterpolation', 'promptEnhance', 'styleIds'],
+    imageToVideo: ['imageId', 'isInitImage', 'isVariation', 'motionStrength', 'isPublic'],
+    initImage: ['extension'],
+    upscale: ['id'],
+    unzoom: ['id', 'isVariation'],
+    nobg: ['id', 'isVariation'],
+    universalUpscaler: [
+        'initImageId', 'generatedImageId', 'variationId', 'upscaleMultiplier', 'creativityStrength', 'prompt',
+        'upscalerStyle', 'ultraUpscaleStyle', 'detailContrast', 'similarity',
+    ],
+    pricingCalculator: ['service', 'serviceParams'],
+    improvePrompt: ['prompt', 'promptInstructions'],
+};
+
+// JSON type of every body field the POST routes accept. Fields of another type are rejected with 400.
+const FIELD_TYPES: Record<string, 'string' | 'number' | 'boolean' | 'array' | 'object'> = {
+    ...Object.fromEntries([
+        'prompt', 'negative_prompt', 'modelId', 'photoRealVersion', 'presetStyle', 'enhancePromptInstructions',
+        'init_image_id', 'init_generation_image_id', 'negativePrompt', 'model', 'resolution', 'imageId', 'extension',
+        'id', 'initImageId', 'generatedImageId', 'variationId', 'upscalerStyle', 'ultraUpscaleStyle', 'service',
+        'promptInstructions',
+    ].map(field => [field, 'string'])),
+    ...Object.fromEntries([
+        'width', 'height', 'num_images', 'photoRealStrength', 'contrastRatio', 'guidance_scale', 'num_inference_steps',
+        'seed', 'contrast', 'init_strength', 'imagePromptWeight', 'motionStrength', 'upscaleMultiplier',
+        'creativityStrength', 'detailContrast', 'similarity',
+    ].map(field => [field, 'number'])),
+    ...Object.fromEntries([
+        'alchemy', 'photoReal', 'highContrast', 'enhancePrompt', 'frameInterpolation', 'promptEnhance', 'isInitImage',
+        'isVariation', 'isPublic',
+    ].map(field => [field, 'boolean'])),
+    ...Object.fromEntries(['controlnets', 'contextImages', 'elements', 'styleIds'].map(field => [field, 'array'])),
+    serviceParams: 'object',
+};
+
+// Fields Leonardo accepts as null.
+const NULLABLE_FIELDS = ['modelId'];
+
+type ProxyBody = Record<string, unknown>;
+
+interface ProxyRoute {
+    name: ProxyRouteName;
+    method: 'GET' | 'POST' | 'DELETE';
+    // Matched against the path below basePath; capture groups are passed to `handle`.
+    pattern: RegExp;
+    // `body` is the JSON body for POST routes and the query string for GET routes.
+    handle: (api: LeonardoAPI, body: ProxyBody, params: string[]) => Promise<unknown>;
+}
+
+// The body of POST /generations-motion-svd, which names the source image by flags instead of an ImageReference.
+interface ImageToVideoBody {
+    imageId: string;
+    isInitImage?: boolean;
+    isVariation?: boolean;
+    motionStrength?: number;
+    isPublic?: boolean;
+}
+
+// The body of POST /variations/universal-upscaler. Any of the ULTRA fields selects the ULTRA mode.
+interface UniversalUpscalerBody {
+    initImageId?: string;
+    generatedImageId?: string;
+    variationId?: string;
+    upscaleMultiplier?: number;
+    creativityStrength?: number;
+    prompt?: string;
+    upscalerStyle?: LegacyUpscalerStyle;
+    ultraUpscaleStyle?: UltraUpscaleStyle;
+    detailContrast?: number;
+    similarity?: number;
+}
+
+const DEFAULT_BASE_PATH = '/api/leonardo';
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_RATE_LIMIT: ProxyRateLimit = { maxRequests: 60, windowMs: 60 * 1000 };
+
+// The variation methods return a VariationJob; clients expect Leonardo's own response shape back.
+const toJobResponse = (key: string, job: VariationJob) => ({ [key]: { id: job.id, apiCreditCost: job.apiCreditCost } });
+
+const toImageReference = (id: string, isVariation: unknown): ImageReference =>
+    isVariation ? { kind: 'variation', id } : { kind: 'generated', id };
+
+// The first body field that is missing or has the wrong JSON type, or null when the body fits.
+const findInvalidField = (body: ProxyBody, required: string[]): { field: string; message: string } | null => {
+    const missing = required.find(field => body[field] === undefined || body[field] === null);
+    if (missing) {
+        return { field: missing, message: `${missing} is required.` };
+    }
+    for (const [field, value] of Object.entries(body)) {
+        const expected = FIELD_TYPES[field];
+        const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+        if (value !== undefined && actual !== expected && !(actual === 'null' && NULLABLE_FIELDS.includes(field))) {
+            return { field, message: `${field} must be of type ${expected}.` };
+        }
+    }
+    return null;
+};
+
+// Narrows a POST body to a route's params interface: the required fields are set and every field has its FIELD_TYPES type.
+// Nested values (e.g. controlnets) are left for Leonardo and the client's own validation.
+const isBodyOf = <T extends object>(body: ProxyBody, required: string[]): body is ProxyBody & T =>
+    findInvalidField(body, required) === null;
+
+// Defines a POST route on a fixed path whose body is checked with isBodyOf before `handle` sees it as T.
+const postRoute = <T extends object>(
+    name: ProxyRouteName,
+    endpoint: string,
+    required: string[],
+    handle: (api: LeonardoAPI, body: T) => Promise<unknown>,
+): ProxyRoute => ({
+    name,
+    method: 'POST',
+    pattern: new RegExp(`^${endpoint}$`),
+    handle: async (api, body) => {
+        if (!isBodyOf<T>(body, required)) {
+            const invalid = findInvalidField(body, required)!;
+            throw new LeonardoValidationError(invalid.message, { endpoint, body: invalid });
+        }
+        return handle(api, body);
+    },
+});
+
+const toOptionalNumber = (value: unknown): number | undefined => (typeof value === 'string' ? Number(value) : undefined);
+
+const ROUTES: ProxyRoute[] = [
+    postRoute<GenerationParams>('generate', '/generations', ['prompt'], (api, body) => api.generateImage(body)),
+    {
+        name: 'listGenerations', method: 'GET', pattern: /^\/generations\/user\/([\w-]+)$/,
+        handle: (api, query, [userId]) => api.listGenerations({
+            userId,
+            offset: toOptionalNumber(query.offset),
+            limit: toOptionalNumber(query.limit),
+        }).then(generations => ({ generations })),
+    },
+    { name: 'getGeneration', method: 'GET', pattern: /^\/generations\/([\w-]+)$/, handle: (api, _, [id]) => api.getGenerationById(id) },
+    { name: 'deleteGeneration', method: 'DELETE', pattern: /^\/generations\/([\w-]+)$/, handle: (api, _, [id]) => api.deleteGeneration(id) },
+    postRoute<TextToVideoParams>('textToVideo', '/generations-text-to-video', ['prompt'], (api, body) => api.generateTextToVideo(body)),
+    postRoute<ImageToVideoBody>('imageToVideo', '/generations-motion-svd', ['imageId'],
+        (api, { imageId, isInitImage, isVariation, motionStrength, isPublic }) => api.generateImageToVideo({
+            image: isInitImage ? { kind: 'uploaded', id: imageId } : toImageReference(imageId, isVariation),
+            motionStrength,
+            isPublic,
+        })),
+    postRoute<{ extension?: string }>('initImage', '/init-image', [], (api, body) => api.getInitImageUploadUrl(body.extension ?? '')),
+    { name: 'deleteInitImage', method: 'DELETE', pattern: /^\/init-image\/([\w-]+)$/, handle: (api, _, [id]) => api.deleteInitImage(id) },
+    postRoute<{ id: string }>('upscale', '/variations/upscale', ['id'],
+        async (api, body) => toJobResponse('sdUpscaleJob', await api.upscaleImage({ kind: 'generated', id: body.id }))),
+    postRoute<{ id: string; isVariation?: boolean }>('unzoom', '/variations/unzoom', ['id'],
+        async (api, body) => toJobResponse('sdUnzoomJob', await api.unzoomImage(toImageReference(body.id, body.isVariation)))),
+    postRoute<{ id: string; isVariation?: boolean }>('nobg', '/variations/nobg', ['id'],
+        async (api, body) => toJobResponse('sdNobgJob', await api.removeBackground(toImageReference(body.id, body.isVariation)))),
+    postRoute<UniversalUpscalerBody>('universalUpscaler', '/variations/universal-upscaler', [],
+        async (api, { initImageId, generatedImageId, variationId, upscalerStyle, ultraUpscaleStyle, detailContrast, similarity, ...common }) => {
+            if (!initImageId && !generatedImageId && !variationId) {
+                const message = 'One of initImageId, generatedImageId or variationId is required.';
+                throw new LeonardoValidationError(message, { endpoint: '/variations/universal-upscaler', body: { field: 'generatedImageId', message } });
+            }
+            const image: ImageReference = initImageId
+                ? { kind: 'uploaded', id: initImageId }
+                : variationId ? { kind: 'variation', id: variationId } : { kind: 'generated', id: generatedImageId! };
+            const ultra = ultraUpscaleStyle !== undefined || detailContrast !== undefined || similarity !== undefined;
+            const params: UniversalUpscaleParams = ultra
+                ? { ...common, image, mode: 'ULTRA', ultraUpscaleStyle, detailContrast, similarity }
+                : { ...common, image, mode: 'LEGACY', upscalerStyle };
+            return toJobResponse('universalUpscaler', await api.universalUpscale(params));
+        }),
+    { name: 'getVariation', method: 'GET', pattern: /^\/variations\/([\w-]+)$/, handle: (api, _, [id]) => api.getVariationById(id) },
+    { name: 'me', method: 'GET', pattern: /^\/me$/, handle: api => api.getUserInfo() },
+    { name: 'platformModels', method: 'GET', pattern: /^\/platformModels$/, handle: async api => ({ custom_models: await api.listPlatformModels() }) },
+    {
+        name: 'listCustomModels', method: 'GET', pattern: /^\/models\/user\/([\w-]+)$/,
+        handle: (api, _, [userId]) => api.listCustomModels(userId).then(models => ({ custom_models: models })),
+    },
+    { name: 'getCustomModel', method: 'GET', pattern: /^\/models\/([\w-]+)$/, handle: (api, _, [id]) => api.getCustomModel(id) },
+    postRoute<PricingCalculatorParams>('pricingCalculator', '/pricing-calculator', ['service', 'serviceParams'], (api, body) => api.calculatePrice(body)),
+    postRoute<PromptImproveParams>('improvePrompt', '/prompt/improve', ['prompt'], (api, body) => api.improvePrompt(body)),
+];
+
+/**
+ * Serves the Leonardo operations used by this project on local routes, calling Leonardo with a server-side key.
+ * Adds a request body limit, a per-route allow-list of body fields, per-client rate limits, an origin check and an
+ * optional access token.
+ * Use `listen()` to run a standalone HTTP server, or mount `handler` in an existing Node server.
+ */
+export class LeonardoProxyServer {
+    private readonly api: LeonardoAPI;
+    private readonly basePath: string;
+    private readonly maxBodyBytes: number;
+    private readonly rateLimit: ProxyRateLimit | null;
+    private readonly allowedParams: Partial<Record<ProxyRouteName, string[]>>;
+    private readonly allowedOrigins: string[] | '*';
+    private readonly accessToken: string | null;
+    private readonly getClientId: (req: IncomingMessage) => string;
+    private readonly windows = new Map<string, { count: number; resetAt: number }>();
+    private readonly server: StandaloneServer;
+
+    constructor(options: ProxyServerOptions) {
+        if (!options.apiKey) {
+            throw new Error('Leonardo API key is required.');
+        }
+        this.api = new LeonardoAPI(options.apiKey, options.apiOptions);
+        this.basePath = (options.basePath ?? DEFAULT_BASE_PATH).replace(/\/+$/, '');
+        this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+        this.rateLimit = options.rateLimit === false ? null : { ...DEFAULT_RATE_LIMIT, ...options.rateLimit };
+        this.allowedParams = { ...DEFAULT_PROXY_ALLOWED_PARAMS, ...options.allowedParams };
+        this.allowedOrigins = options.allowedOrigins ?? [];
+        this.accessToken = options.accessToken || null;
+        this.getClientId = options.getClientId ?? (req => req.socket.remoteAddress ?? 'unknown');
+        this.server = new StandaloneServer('Proxy server', this.handler);
+    }
+
+    /**
+     * Request handler that can be passed to `http.createServer` or mounted in Express/Connect.
+     * Responds 403 for a browser request from an origin that is not allowed, 401 without the access token,
+     * 404 for unknown routes, 405 for a wrong method, 429 when the client is over its limit, 413 for oversized
+     * bodies and 400 for unreadable bodies or fields outside the allow-list or of the wrong type.
+     * Leonardo's own error responses are passed through with their status.
+     */
+    public readonly handler = (req: IncomingMessage, res: ServerResponse): void => {
+        if (!this.isOriginAllowed(req)) {
+            respondJson(res, 403, { error: 'Origin not allowed' });
+            return;
+        }
+        this.applyCors(req, res);
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204);
+            res.end();
+            return;
+        }
+        if (this.accessToken && !hasBearerToken(req.headers.authorization, this.accessToken)) {
+            respondJson(res, 401, { error: 'Invalid proxy access token' });
+            return;
+        }
+
+        const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+        if (!pathname.startsWith(`${this.basePath}/`)) {
+            respondJson(res, 404, { error: 'Not found' });
+            return;
+        }
+        const routePath = pathname.slice(this.basePath.length);
+        const candidates = ROUTES
+            .map(route => ({ route, match: route.pattern.exec(routePath) }))
+            .filter(({ match }) => match !== null);
+        if (candidates.length === 0) {
+            respondJson(res, 404, { error: 'Not found' });
+            return;
+        }
+        const matched = candidates.find(({ route }) => route.method === req.method);
+        if (!matched) {
+            respondJson(res, 405, { error: 'Method not allowed' });
+            return;
+        }
+
+        const retryAfter = this.consumeRateLimit(this.getClientId(req));
+        if (retryAfter !== null) {
+            res.setHeader('Retry-After', String(retryAfter));
+            respondJson(res, 429, { error: 'Too many requests to the proxy' });
+            return;
+        }
+
+        const { route, match } = matched;
+        readBody(req, this.maxBodyBytes)
+            .then(async text => {
+                let body: ProxyBody = Object.fromEntries(searchParams);
+                if (route.method === 'POST') {
+                    let parsed: unknown;
+                    try {
+                        parsed = text ? JSON.parse(text) : {};
+                    } catch {
+                        respondJson(res, 400, { error: 'Body is not valid JSON' });
+                        return;
+                    }
+                    if (!isRecord(parsed)) {
+                        respondJson(res, 400, { error: 'Body must be a JSON object' });
+                        return;
+                    }
+                    body = parsed;
+                    const allowed = this.allowedParams[route.name] ?? [];
+                    const rejected = Object.keys(body).filter(field => !allowed.includes(field));
+                    if (rejected.length > 0) {
+                        respondJson(res, 400, { error: `Parameters not allowed: ${rejected.join(', ')}` });
+                        return;
+                    }
+                }
+                try {
+                    respondJson(res, 200, await route.handle(this.api, body, match!.slice(1)) as object);
+                } catch (error) {
+                    this.respondWithError(res, error);
+                }
+            })
+            .catch((error: Error) => {
+                respondJson(res, 413, { error: error.message });
+            });
+    };
+
+    /**
+     * Starts a standalone HTTP server.
+     * @param port - The port to listen on. Pass 0 to pick a free port.
+     * @param host - The interface to bind to. Defaults to '127.0.0.1', so only this machine can reach the key;
+     *   pass '0.0.0.0' to accept other machines, ideally together with `accessToken`.
+     * @returns A promise that resolves to the port the server is listening on.
+     */
+    public listen(port: number, host: string = '127.0.0.1'): Promise<number> {
+        return this.server.listen(port, host);
+    }
+
+    /**
+     * Stops the standalone server.
+     */
+    public close(): Promise<void> {
+        return this.server.close();
+    }
+
+    // Fixed-window counter per client. Returns the seconds until the window resets when the client is over its limit.
+    private consumeRateLimit(clientId: string): number | null {
+        if (!this.rateLimit) {
+            return null;
+        }
+        const now = Date.now();
+        if (this.windows.size > 10000) {
+            this.windows.forEach((window, id) => window.resetAt <= now && this.windows.delete(id));
+        }
+        let window = this.windows.get(clientId);
+        if (!window || window.resetAt <= now) {
+            window = { count: 0, resetAt: now + this.rateLimit.windowMs };
+            this.windows.set(clientId, window);
+        }
+        window.count++;
+        return window.count > this.rateLimit.maxRequests ? Math.ceil((window.resetAt - now) / 1000) : null;
+    }
+
+    // Browsers send Origin on cross-origin requests (and on same-origin POSTs); requests without one are not from a page.
+    private isOriginAllowed(req: IncomingMessage): boolean {
+        const origin = req.headers.origin;
+        if (!origin || this.allowedOrigins === '*' || this.allowedOrigins.includes(origin)) {
+            return true;
+        }
+        try {
+            return new URL(origin).host === req.headers.host;
+        } catch {
+            return false;
+        }
+    }
+
+    private applyCors(req: IncomingMessage, res: ServerResponse): void {
+        const origin = req.headers.origin;
+        if (!origin || (this.allowedOrigins !== '*' && !this.allowedOrigins.includes(origin))) {
+            return;
+        }
+        res.setHeader('Access-Control-Allow-Origin', this.allowedOrigins === '*' ? '*' : origin);
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization');
+        res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+        res.setHeader('Vary', 'Origin');
+    }
+
+    // Passes Leonardo's errors through unchanged; errors raised before a request was sent get a status of their own.
+    private respondWithError(res: ServerResponse, error: unknown): void {
+        if (!(error instanceof LeonardoAPIError)) {
+            console.error('Leonardo proxy error:', error);
+            respondJson(res, 500, { error: 'Internal proxy error' });
+            return;
+        }
+        if (error instanceof LeonardoRateLimitError && error.retryAfter !== null) {
+            res.setHeader('Retry-After', String(Math.ceil(error.retryAfter)));
+        }
+        if (error.status !== null) {
+            const body = error.body && typeof error.body === 'object' ? error.body : { error: String(error.body ?? error.message) };
+            respondJson(res, error.status, body as object);
+            return;
+        }
+        const status = error instanceof LeonardoValidationError ? 400
+            : error instanceof LeonardoBudgetExceededError ? 402
+            : error instanceof LeonardoNetworkError ? 502
+            : 500;
+        respondJson(res, status, { error: error.message });
+    }
+}
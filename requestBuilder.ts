@@ -0,0 +1,372 @@
+import {
+    GenerationParams,
+    ControlNetParams,
+    ElementParams,
+    ParamIssue,
+    ParamValidationResult,
+    ImageReference,
+    ImageToImageParams,
+    LeonardoValidationError,
+    validateGenerationParams,
+    buildImageToImageParams,
+    DEFAULT_INIT_STRENGTH,
+} from './leonardo';
+import {
+    getModelConfig,
+    ModelConfigEntry,
+    ASPECT_RATIO_DIMENSIONS,
+    ELEMENTS,
+    GUIDANCE_STRENGTH_TYPES,
+    NON_ALCHEMY_PRESET_STYLES,
+} from './modelConfig';
+
+// What the builder does with a setting the model does not support.
+// 'drop' leaves it out of the request and records it (see getDroppedSettings); 'error' throws right away.
+export type UnsupportedSettingMode = 'drop' | 'error';
+
+export interface GenerationRequestBuilderOptions {
+    // Defaults to 'drop'.
+    mode?: UnsupportedSettingMode;
+}
+
+const ENDPOINT = '/generations';
+
+// Turns a style name as shown in IMAGE_GEN_STYLES ("Render 3d") into its presetStyle value ("RENDER_3D").
+export const toPresetStyle = (styleName: string): string => styleName.trim().toUpperCase().replace(/\s+/g, '_');
+
+/**
+ * Builds `GenerationParams` for a model in MODEL_CONFIG, starting from the model's defaults.
+ * Settings the model does not support are dropped or rejected, depending on the mode.
+ *
+ * @example
+ * const params = new GenerationRequestBuilder('Leonardo Phoenix 1.0')
+ *     .prompt('A lighthouse at dusk')
+ *     .aspectRatio('16:9')
+ *     .style('Cinematic')
+ *     .guidanceImage(initImageId, 'Style Reference', 'High')
+ *     .build();
+ */
+export class GenerationRequestBuilder {
+    private readonly modelName: string;
+    private readonly config: ModelConfigEntry;
+    private readonly mode: UnsupportedSettingMode;
+    private readonly dropped: ParamIssue[] = [];
+
+    private promptText = '';
+    private negativePromptText?: string;
+    private width: number;
+    private height: number;
+    private numImages: number;
+    private seedValue?: number;
+    private alchemyEnabled?: boolean;
+    private photoRealEnabled?: boolean;
+    private styleName?: string;
+    // Whether the style was chosen by the caller rather than taken from the model defaults.
+    private styleExplicit = false;
+    private contrastValue?: number;
+    private enhancePromptEnabled?: boolean;
+    private enhanceInstructions?: string;
+    private readonly controlnets: ControlNetParams[] = [];
+    private readonly contextImages: { init_image_id: string; context: string }[] = [];
+    private readonly elements: ElementParams[] = [];
+    private initImageParams?: ImageToImageParams;
+
+    /**
+     * @param modelName - A MODEL_CONFIG name, e.g. 'Leonardo Phoenix 1.0'.
+     * @param options - How to treat settings the model does not support.
+     * @throws LeonardoValidationError when the model is not an image generation model in MODEL_CONFIG.
+     */
+    constructor(modelName: string, options: GenerationRequestBuilderOptions = {}) {
+        const config = getModelConfig(modelName);
+        if (!config || config.nodeType !== 'image-generation') {
+            const message = `"${modelName}" is not an image generation model.`;
+            throw new LeonardoValidationError(message, { endpoint: ENDPOINT, body: { field: 'modelId', message } });
+        }
+        this.modelName = modelName;
+        this.config = config;
+        this.mode = options.mode ?? 'drop';
+
+        const { supports, defaults } = config;
+        const ratios = supports.aspectRatios ?? ['1:1'];
+        const { width, height } = ASPECT_RATIO_DIMENSIONS[ratios.includes('1:1') ? '1:1' : ratios[0]] ?? ASPECT_RATIO_DIMENSIONS['1:1'];
+        this.width = width;
+        this.height = height;
+        this.numImages = defaults.numImages ?? 1;
+        if (supports.alchemy) {
+            this.alchemyEnabled = true;
+            this.photoRealEnabled = defaults.photoReal ?? false;
+        }
+        this.styleName = defaults.style;
+        if (supports.contrast) {
+            this.contrastValue = defaults.contrast ?? 1.0;
+        }
+        if (supports.promptEnhance) {
+            this.enhancePromptEnabled = defaults.promptEnhance ?? false;
+        }
+    }
+
+    /** Sets the prompt. */
+    public prompt(text: string): this {
+        this.promptText = text;
+        return this;
+    }
+
+    /** Sets the negative prompt; an empty string clears it. */
+    public negativePrompt(text: string): this {
+        this.negativePromptText = text.trim() || undefined;
+        return this;
+    }
+
+    /** Sets width and height from one of the model's aspect ratios, e.g. '16:9'. */
+    public aspectRatio(ratio: string): this {
+        const dimensions = ASPECT_RATIO_DIMENSIONS[ratio];
+        if (!dimensions || !this.config.supports.aspectRatios?.includes(ratio)) {
+            return this.unsupported('width', `${this.modelName} does not support the ${ratio} aspect ratio.`);
+        }
+        return this.dimensions(dimensions.width, dimensions.height);
+    }
+
+    /** Sets explicit dimensions. They are checked (multiple of 8, 32 to 1536) when the request is built. */
+    public dimensions(width: number, height: number): this {
+        this.width = width;
+        this.height = height;
+        return this;
+    }
+
+    /** Sets the number of images to generate (1 to 8). */
+    public imageCount(count: number): this {
+        this.numImages = count;
+        return this;
+    }
+
+    /** Sets the seed; undefined clears it. */
+    public seed(seed: number | undefined): this {
+        this.seedValue = seed;
+        return this;
+    }
+
+    /** Turns Alchemy on or off. Turning it off also turns off PhotoReal. */
+    public alchemy(enabled: boolean): this {
+        if (enabled && !this.config.supports.alchemy) {
+            return this.unsupported('alchemy', `${this.modelName} does not support Alchemy.`);
+        }
+        this.alchemyEnabled = this.config.supports.alchemy ? enabled : undefined;
+        if (!enabled) {
+            this.photoRealEnabled = this.config.supports.alchemy ? false : undefined;
+        }
+        return this;
+    }
+
+    /** Turns PhotoReal on or off. Requires Alchemy. */
+    public photoReal(enabled: boolean): this {
+        if (enabled && !this.config.supports.alchemy) {
+            return this.unsupported('photoReal', `${this.modelName} does not support PhotoReal.`);
+        }
+        this.photoRealEnabled = this.config.supports.alchemy ? enabled : undefined;
+        return this;
+    }
+
+    /** Sets the preset style by its display name (e.g. 'Render 3d') or API value (e.g. 'RENDER_3D'). 'None' clears it. */
+    public style(styleName: string): this {
+        this.styleName = styleName;
+        this.styleExplicit = true;
+        return this;
+    }
+
+    /** Sets the contrast, for models that have a contrast setting. */
+    public contrast(value: number): this {
+        if (!this.config.supports.contrast) {
+            return this.unsupported('contrast', `${this.modelName} has no contrast setting.`);
+        }
+        this.contrastValue = value;
+        return this;
+    }
+
+    /** Turns prompt enhancement on or off, optionally rewriting the prompt according to `instructions`. */
+    public enhancePrompt(enabled: boolean, instructions?: string): this {
+        if (enabled && !this.config.supports.promptEnhance) {
+            return this.unsupported('enhancePrompt', `${this.modelName} does not support prompt enhancement.`);
+        }
+        this.enhancePromptEnabled = this.config.supports.promptEnhance ? enabled : undefined;
+        this.enhanceInstructions = enabled ? instructions?.trim() || undefined : undefined;
+        return this;
+    }
+
+    /**
+     * Adds an uploaded image as a guidance (ControlNet) input.
+     * @param initImageId - The id of an uploaded init image.
+     * @param guidanceType - A guidance type of the model, e.g. 'Style Reference'.
+     * @param strength - A weight for guidance types that use one, otherwise a strengthType such as 'Mid' (the default).
+     */
+    public guidanceImage(initImageId: string, guidanceType: string, strength?: number | string): this {
+        const guidance = this.config.supports.guidance?.[guidanceType];
+        if (!guidance) {
+            return this.unsupported('controlnets', `${this.modelName} does not support ${guidanceType} guidance.`);
+        }
+        const base = { initImageId, initImageType: 'UPLOADED' as const, preprocessorId: guidance.preprocessorId };
+        if (guidance.usesWeight) {
+            this.controlnets.push({ ...base, weight: typeof strength === 'number' ? strength : 1.0 });
+            return this;
+        }
+        const strengthType = typeof strength === 'string' ? strength : 'Mid';
+        const validStrengths = GUIDANCE_STRENGTH_TYPES[guidanceType];
+        if (validStrengths && !validStrengths.includes(strengthType)) {
+            return this.unsupported('controlnets', `${guidanceType} strength must be one of ${validStrengths.join(', ')} (got ${strengthType}).`);
+        }
+        this.controlnets.push({ ...base, strengthType });
+        return this;
+    }
+
+    /**
+     * Adds an uploaded image as a context image, for models with context guidance (e.g. FLUX.1 Kontext).
+     * @param initImageId - The id of an uploaded init image.
+     * @param context - One of the model's `contextGuidance` values, e.g. 'STYLE_ONLY'.
+     */
+    public contextImage(initImageId: string, context: string): this {
+        const supported = this.config.supports.contextGuidance;
+        if (!supported?.includes(context)) {
+            const message = supported
+                ? `Context "${context}" is not supported by ${this.modelName}. Supported: ${supported.join(', ')}.`
+                : `${this.modelName} does not support context images.`;
+            return this.unsupported('contextImages', message);
+        }
+        this.contextImages.push({ init_image_id: initImageId, context });
+        return this;
+    }
+
+    /**
+     * Starts from an existing image (image-to-image), for models that support it. Replaces any earlier init image.
+     * @param image - An uploaded init image or a generated image.
+     * @param strength - How closely the result follows the image, 0.1 to 0.9. Defaults to the model's default strength.
+     * @throws LeonardoValidationError for a variation output or a strength outside 0.1 to 0.9.
+     */
+    public initImage(image: ImageReference, strength?: number): this {
+        if (!this.config.supports.imageToImage) {
+            return this.unsupported('init_image_id', `${this.modelName} does not support image-to-image.`);
+        }
+        this.initImageParams = buildImageToImageParams(image, strength ?? this.config.defaults.strength ?? DEFAULT_INIT_STRENGTH);
+        return this;
+    }
+
+    /**
+     * Applies an Element.
+     * @param element - A name from ELEMENTS or a raw akUUID (e.g. a user-trained Element).
+     * @param weight - Defaults to the catalog's default weight, or 1 for unknown akUUIDs.
+     */
+    public element(element: string, weight?: number): this {
+        if (!this.config.supports.elements) {
+            return this.unsupported('elements', `${this.modelName} does not support Elements.`);
+        }
+        const entry = ELEMENTS[element];
+        this.elements.push({ akUUID: entry?.akUUID ?? element, weight: weight ?? entry?.defaultWeight ?? 1 });
+        return this;
+    }
+
+    /** Returns the settings that were left out because the model does not support them ('drop' mode). */
+    public getDroppedSettings(): ParamIssue[] {
+        const styleIssue = this.getStyleIssue();
+        return styleIssue ? [...this.dropped, styleIssue] : [...this.dropped];
+    }
+
+    /**
+     * Checks the request as it would be built. Dropped settings are reported as warnings.
+     * @returns Field-level errors and warnings from validateGenerationParams.
+     */
+    public validate(): ParamValidationResult {
+        const { errors, warnings } = validateGenerationParams(this.modelName, this.assemble());
+        return { errors, warnings: [...this.getDroppedSettings(), ...warnings] };
+    }
+
+    /**
+     * Produces the request.
+     * @returns Params that pass validateGenerationParams for this model.
+     * @throws LeonardoValidationError when the params are still invalid, e.g. dimensions that are not a multiple of 8.
+     */
+    public build(): GenerationParams {
+        const styleIssue = this.getStyleIssue();
+        if (styleIssue && this.mode === 'error') {
+            throw new LeonardoValidationError(styleIssue.message, { endpoint: ENDPOINT, body: styleIssue });
+        }
+        const params = this.assemble();
+        const { errors, warnings } = validateGenerationParams(this.modelName, params);
+        if (errors.length > 0) {
+            const message = errors.map(issue => issue.message).join(' ');
+            throw new LeonardoValidationError(message, { endpoint: ENDPOINT, body: { field: errors[0].field, message, errors, warnings } });
+        }
+        return params;
+    }
+
+    private assemble(): GenerationParams {
+        const params: GenerationParams = {
+            prompt: this.promptText,
+            modelId: this.config.id,
+            width: this.width,
+            height: this.height,
+            num_images: this.numImages,
+        };
+        if (this.negativePromptText) {
+            params.negative_prompt = this.negativePromptText;
+        }
+        if (this.seedValue !== undefined) {
+            params.seed = this.seedValue;
+        }
+        if (this.enhancePromptEnabled !== undefined) {
+            params.enhancePrompt = this.enhancePromptEnabled;
+            if (this.enhancePromptEnabled && this.enhanceInstructions) {
+                params.enhancePromptInstructions = this.enhanceInstructions;
+            }
+        }
+        if (this.alchemyEnabled !== undefined) {
+            params.alchemy = this.alchemyEnabled;
+            if (this.alchemyEnabled) {
+                params.photoReal = this.photoRealEnabled ?? false;
+            }
+        }
+        const presetStyle = this.resolvePresetStyle();
+        if (presetStyle) {
+            params.presetStyle = presetStyle;
+        }
+        if (this.contrastValue !== undefined) {
+            params.contrast = this.contrastValue;
+        }
+        if (this.elements.length > 0) {
+            params.elements = [...this.elements];
+        }
+        if (this.initImageParams) {
+            Object.assign(params, this.initImageParams);
+        }
+        // guidanceImage and contextImage only accept images the model supports, so at most one of these is set.
+        if (this.controlnets.length > 0) {
+            params.controlnets = [...this.controlnets];
+        }
+        if (this.contextImages.length > 0) {
+            params.contextImages = [...this.contextImages];
+        }
+        return params;
+    }
+
+    // Styles other than LEONARDO need Alchemy, which may be turned on after the style is set, so this is resolved late.
+    private resolvePresetStyle(): string | undefined {
+        const presetStyle = this.styleName ? toPresetStyle(this.styleName) : 'NONE';
+        if (presetStyle === 'NONE' || (!this.alchemyEnabled && !NON_ALCHEMY_PRESET_STYLES.includes(presetStyle))) {
+            return undefined;
+        }
+        return presetStyle;
+    }
+
+    // A default style the request cannot use is left out silently; one the caller chose is reported.
+    private getStyleIssue(): ParamIssue | null {
+        if (!this.styleExplicit || !this.styleName || toPresetStyle(this.styleName) === 'NONE' || this.resolvePresetStyle()) {
+            return null;
+        }
+        return { field: 'presetStyle', message: `Style "${this.styleName}" requires Alchemy, which is off for this request. The setting was left out.` };
+    }
+
+    private unsupported(field: string, message: string): this {
+        if (this.mode === 'error') {
+            throw new LeonardoValidationError(message, { endpoint: ENDPOINT, body: { field, message } });
+        }
+        this.dropped.push({ field, message: `${message} The setting was left out.` });
+        return this;
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { LeonardoAPI, LeonardoGenerationFailedError, LeonardoServerError } from './leonardo';
+import { LeonardoSimulator, LeonardoSimulatorOptions } from './simulator';
+import { getModelId } from './modelConfig';
+
+const PARAMS = { prompt: 'A lighthouse at dusk', modelId: getModelId('Leonardo Phoenix 1.0')!, width: 1024, height: 1024, num_images: 2 };
+// Poll and back off without real delays.
+const FAST_WAIT = { intervalMs: 1, maxIntervalMs: 1 };
+
+const setup = (options: LeonardoSimulatorOptions = {}) => {
+    const sim = new LeonardoSimulator(options);
+    const api = new LeonardoAPI('test-key', { fetch: sim.fetch, retry: { baseDelayMs: 1, maxDelayMs: 1, jitter: 0 } });
+    return { sim, api };
+};
+
+const countRequests = (sim: LeonardoSimulator, method: string, path: string) =>
+    sim.requests.filter(request => request.method === method && request.path === path).length;
+
+describe('LeonardoAPI against LeonardoSimulator', () => {
+    it('polls a generation until it completes', async () => {
+        const { sim, api } = setup({ pendingPolls: 2 });
+
+        const result = await api.generateAndWait(PARAMS, FAST_WAIT);
+
+        const generation = result.generations_by_pk!;
+        expect(generation.status).toBe('COMPLETE');
+        expect(generation.generated_images).toHaveLength(2);
+        expect(countRequests(sim, 'GET', `/generations/${generation.id}`)).toBe(3);
+    });
+
+    it('rejects with LeonardoGenerationFailedError when the generation fails', async () => {
+        const { sim, api } = setup({ pendingPolls: 1, outcomes: ['FAILED'] });
+
+        const error = await api.generateAndWait(PARAMS, FAST_WAIT).catch(err => err);
+
+        expect(error).toBeInstanceOf(LeonardoGenerationFailedError);
+        const generationId = (error as LeonardoGenerationFailedError).generationId!;
+        expect(sim.getJob(generationId)?.status).toBe('FAILED');
+    });
+
+    it('uploads an init image through the presigned storage POST', async () => {
+        const { sim, api } = setup();
+        const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+        const initImageId = await api.uploadInitImage(new Blob([png], { type: 'image/png' }));
+
+        const upload = sim.getUpload(initImageId);
+        expect(upload).toMatchObject({ extension: 'png', uploaded: true, size: png.length });
+    });
+
+    it('retries a generation start that was rate limited', async () => {
+        const { sim, api } = setup({ pendingPolls: 0 });
+        sim.injectFailure({ status: 429, path: '/generations', method: 'POST' });
+
+        const result = await api.generateAndWait(PARAMS, FAST_WAIT);
+
+        expect(result.generations_by_pk?.status).toBe('COMPLETE');
+        expect(countRequests(sim, 'POST', '/generations')).toBe(2);
+    });
+
+    it('does not retry a generation start that failed with a server error', async () => {
+        const { sim, api } = setup({ pendingPolls: 0 });
+        sim.injectFailure({ status: 502, path: '/generations', method: 'POST' });
+
+        await expect(api.generateAndWait(PARAMS, FAST_WAIT)).rejects.toBeInstanceOf(LeonardoServerError);
+
+        expect(countRequests(sim, 'POST', '/generations')).toBe(1);
+    });
+
+    it('numbers jobs uniquely after a generation is deleted', async () => {
+        const { sim, api } = setup({ pendingPolls: 0 });
+        const first = (await api.generateImage(PARAMS)).sdGenerationJob!.generationId;
+        const second = (await api.generateImage(PARAMS)).sdGenerationJob!.generationId;
+        await api.deleteGeneration(first);
+
+        const third = (await api.generateImage(PARAMS)).sdGenerationJob!.generationId;
+
+        expect(sim.getJob(third)?.sequence).toBe(2);
+        expect(sim.getJob(second)?.sequence).toBe(1);
+    });
+
+    it('rejects a malformed request body with 400', async () => {
+        const sim = new LeonardoSimulator();
+        const post = (body: string) => sim.fetch('https://cloud.leonardo.ai/api/rest/v1/generations', { method: 'POST', body });
+
+        const mistyped = await post(JSON.stringify({ ...PARAMS, num_images: '2' }));
+        const notAnObject = await post('["A lighthouse at dusk"]');
+
+        expect(mistyped.status).toBe(400);
+        expect(await mistyped.json()).toEqual({ error: 'Expected num_images to be a number' });
+        expect(notAnObject.status).toBe(400);
+        expect(sim.requests.filter(request => request.path === '/generations')).toHaveLength(2);
+    });
+});
@@ -0,0 +1,697 @@
+// In-memory simulator of the parts of the Leonardo REST API this project uses, for tests that run offline.
+// Pass `simulator.fetch` to LeonardoAPI; jobs move from PENDING to COMPLETE/FAILED as they are polled,
+// init image uploads go to a fake presigned storage URL, CDN image URLs serve placeholder files,
+// and 429/500/network failures can be injected.
+
+import { FetchFunction, JobStatus, PlatformModel, isRecord } from './leonardo';
+import { MODEL_CONFIG } from './modelConfig';
+
+const DEFAULT_BASE_URL = 'https://cloud.leonardo.ai/api/rest/v1';
+const STORAGE_URL = 'https://simulated-storage.leonardo.test/';
+const CDN_URL = 'https://simulated-cdn.leonardo.test';
+const SIMULATED_USER_ID = 'simulated-user';
+const INIT_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+
+export type SimulatedJobKind = 'generation' | 'variation' | 'training';
+export type SimulatedOutcome = Exclude<JobStatus, 'PENDING'>;
+
+export interface SimulatedJob {
+    id: string;
+    // Position among all jobs started on this simulator, from 0. Indexes into a list of `outcomes`.
+    sequence: number;
+    kind: SimulatedJobKind;
+    // The endpoint that created the job, e.g. '/generations', '/variations/nobg' or '/models'.
+    endpoint: string;
+    // The parsed request body.
+    params: SimulatedRequestBody;
+    status: JobStatus;
+    // Status checks answered so far.
+    polls: number;
+    apiCreditCost: number;
+    createdAt: number;
+}
+
+// The request body fields the simulator reads, across all endpoints. Other fields are kept as sent.
+export interface SimulatedRequestBody {
+    [field: string]: unknown;
+    // POST /generations
+    prompt?: string;
+    negative_prompt?: string;
+    modelId?: string | null;
+    width?: number;
+    height?: number;
+    num_images?: number;
+    presetStyle?: string;
+    alchemy?: boolean;
+    photoReal?: boolean;
+    contrast?: number;
+    seed?: number;
+    init_image_id?: string;
+    // Variations and dataset uploads from generated images
+    id?: string;
+    initImageId?: string;
+    generatedImageId?: string;
+    variationId?: string;
+    // Init image and dataset image uploads
+    extension?: string;
+    // Datasets and custom model training
+    name?: string;
+    description?: string;
+    instance_prompt?: string;
+    datasetId?: string;
+    resolution?: number;
+    sd_Version?: string;
+    modelType?: string;
+    strength?: string;
+    nsfw?: boolean;
+}
+
+// JSON type of each SimulatedRequestBody field. A field of another type is answered with 400, as Leonardo does.
+const BODY_FIELD_TYPES: Record<string, 'string' | 'number' | 'boolean'> = {
+    prompt: 'string', negative_prompt: 'string', modelId: 'string', width: 'number', height: 'number', num_images: 'number',
+    presetStyle: 'string', alchemy: 'boolean', photoReal: 'boolean', contrast: 'number', seed: 'number', init_image_id: 'string',
+    id: 'string', initImageId: 'string', generatedImageId: 'string', variationId: 'string', extension: 'string',
+    name: 'string', description: 'string', instance_prompt: 'string', datasetId: 'string', resolution: 'number',
+    sd_Version: 'string', modelType: 'string', strength: 'string', nsfw: 'boolean',
+};
+
+// The first field of a parsed body whose type does not match BODY_FIELD_TYPES, or null. Null counts as left out.
+const findMistypedField = (body: Record<string, unknown>): string | null =>
+    Object.keys(BODY_FIELD_TYPES).find(field => body[field] !== undefined && body[field] !== null && typeof body[field] !== BODY_FIELD_TYPES[field]) ?? null;
+
+const isRequestBody = (value: unknown): value is SimulatedRequestBody => isRecord(value) && findMistypedField(value) === null;
+
+export interface SimulatedUpload {
+    // Also the dataset image id for dataset uploads.
+    initImageId: string;
+    // Set for images uploaded to a dataset rather than as init images.
+    datasetId?: string;
+    extension: string;
+    // False until the presigned POST succeeds.
+    uploaded: boolean;
+    size: number | null;
+    contentType: string | null;
+    expiresAt: number;
+}
+
+export interface SimulatedDataset {
+    id: string;
+    name: string;
+    description: string | null;
+    createdAt: number;
+}
+
+export interface SimulatedRequest {
+    method: string;
+    // The path below the base URL, or the full URL for storage uploads.
+    path: string;
+    body: unknown;
+}
+
+export interface SimulatedFailure {
+    // The HTTP status to answer with, or 'network' to reject like a dropped connection.
+    status: number | 'network';
+    // Only requests whose path (below the base URL; the full URL for storage uploads) matches fail. Defaults to every request.
+    path?: string | RegExp;
+    method?: 'GET' | 'POST' | 'DELETE';
+    // How many matching requests fail before the simulator answers normally again. Defaults to 1.
+    times?: number;
+    // Sent as the Retry-After header, in seconds.
+    retryAfter?: number;
+    // Response body. Defaults to `{ error: '...' }`.
+    body?: unknown;
+}
+
+export interface LeonardoSimulatorOptions {
+    // Base URL to answer on; use the same value for LeonardoAPI. Defaults to Leonardo's production API.
+    baseUrl?: string;
+    // When set, requests must send this key as a Bearer token or get a 401.
+    apiKey?: string;
+    // How many status checks report PENDING before a job finishes. Defaults to 1.
+    pendingPolls?: number;
+    // Final status of each job in creation order (jobs past the end complete), or a function deciding it per job.
+    outcomes?: SimulatedOutcome[] | ((job: SimulatedJob) => SimulatedOutcome);
+    // Credits charged per generated image. Defaults to 4.
+    creditsPerImage?: number;
+    // Credits charged per variation job. Defaults to 5.
+    creditsPerVariation?: number;
+    // Credits charged per custom model training. Defaults to 500.
+    creditsPerTraining?: number;
+    // Starting API balance. Jobs draw from subscription tokens first. Defaults to 1000 paid, 0 subscription.
+    balance?: { apiPaidTokens: number; apiSubscriptionTokens: number };
+    // How long presigned upload URLs stay valid. Defaults to 2 minutes, like Leonardo's.
+    uploadUrlTtlMs?: number;
+    // Clock used for upload expiry. Defaults to Date.now.
+    now?: () => number;
+    // What GET /platformModels lists. Defaults to the MODEL_CONFIG entries with an id, one per id.
+    platformModels?: PlatformModel[];
+}
+
+const VARIATION_RESPONSE_KEYS: Record<string, string> = {
+    '/variations/upscale': 'sdUpscaleJob',
+    '/variations/unzoom': 'sdUnzoomJob',
+    '/variations/nobg': 'sdNobgJob',
+    '/variations/universal-upscaler': 'universalUpscaler',
+};
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// Magic bytes of the placeholder files the simulated CDN serves, by extension.
+const CDN_FILE_SIGNATURES: Record<string, { bytes: number[]; contentType: string }> = {
+    jpg: { bytes: [0xff, 0xd8, 0xff, 0xe0], contentType: 'image/jpeg' },
+    png: { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], contentType: 'image/png' },
+    webp: { bytes: [0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50], contentType: 'image/webp' },
+};
+
+const storageError = (status: number, code: string, message: string) =>
+    new Response(`<?xml version="1.0" encoding="UTF-8"?>\n<Error><Code>${code}</Code><Message>${message}</Message></Error>`, {
+        status,
+        headers: { 'Content-Type': 'application/xml', 'x-amz-request-id': 'SIMULATED' },
+    });
+
+// Answers a CDN image URL with a placeholder file: the format's magic bytes followed by the URL.
+const serveCdnFile = (method: string, url: string): Response => {
+    const signature = CDN_FILE_SIGNATURES[url.split('.').pop()!.toLowerCase()];
+    if (method !== 'GET' || !signature) {
+        return new Response('Not Found', { status: 404 });
+    }
+    const urlBytes = new TextEncoder().encode(url);
+    const bytes = new Uint8Array(signature.bytes.length + urlBytes.length);
+    bytes.set(signature.bytes);
+    bytes.set(urlBytes, signature.bytes.length);
+    return new Response(bytes, { status: 200, headers: { 'Content-Type': signature.contentType } });
+};
+
+/**
+ * Answers LeonardoAPI's requests from memory. Covers image generations and their history, variations, init image
+ * uploads (including the presigned storage POST), datasets and custom model training, deleting generations and
+ * init images, GET /me and GET /platformModels; other endpoints answer 404.
+ */
+export class LeonardoSimulator {
+    private readonly baseUrl: string;
+    private readonly apiKey?: string;
+    private readonly pendingPolls: number;
+    private readonly outcomes: NonNullable<LeonardoSimulatorOptions['outcomes']>;
+    private readonly creditsPerImage: number;
+    private readonly creditsPerVariation: number;
+    private readonly creditsPerTraining: number;
+    private readonly uploadUrlTtlMs: number;
+    private readonly now: () => number;
+    private readonly balance: { apiPaidTokens: number; apiSubscriptionTokens: number };
+    private readonly platformModels: PlatformModel[];
+    private readonly jobs = new Map<string, SimulatedJob>();
+    private readonly uploads = new Map<string, SimulatedUpload>();
+    private readonly datasets = new Map<string, SimulatedDataset>();
+    private failures: (SimulatedFailure & { remaining: number })[] = [];
+    private nextId = 1;
+    // Jobs started so far. Deleting a job does not lower it, so every job gets its own `sequence`.
+    private jobCount = 0;
+    // Every request received, in order.
+    public readonly requests: SimulatedRequest[] = [];
+
+    constructor(options: LeonardoSimulatorOptions = {}) {
+        this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.apiKey = options.apiKey;
+        this.pendingPolls = options.pendingPolls ?? 1;
+        this.outcomes = options.outcomes ?? [];
+        this.creditsPerImage = options.creditsPerImage ?? 4;
+        this.creditsPerVariation = options.creditsPerVariation ?? 5;
+        this.creditsPerTraining = options.creditsPerTraining ?? 500;
+        this.uploadUrlTtlMs = options.uploadUrlTtlMs ?? 2 * 60 * 1000;
+        this.now = options.now ?? Date.now;
+        this.balance = { ...(options.balance ?? { apiPaidTokens: 1000, apiSubscriptionTokens: 0 }) };
+        this.platformModels = options.platformModels ?? Object.entries(MODEL_CONFIG)
+            .filter(([_, config], index, entries) => config.id && entries.findIndex(([__, other]) => other.id === config.id) === index)
+            .map(([name, config]) => ({ id: config.id!, name }));
+    }
+
+    /**
+     * A fetch replacement to pass as `LeonardoAPIOptions.fetch`.
+     */
+    public readonly fetch: FetchFunction = async (url, init = {}) => {
+        const method = (init.method ?? 'GET').toUpperCase();
+        const isStorage = url.startsWith(STORAGE_URL);
+        const isCdn = url.startsWith(`${CDN_URL}/`);
+        if (!isStorage && !isCdn && !url.startsWith(`${this.baseUrl}/`)) {
+            throw new TypeError(`fetch failed: ${url} is not served by the simulator`);
+        }
+
+        const path = isStorage || isCdn ? url : new URL(url).pathname.slice(new URL(this.baseUrl).pathname.replace(/\/$/, '').length);
+        let parsed: unknown = {};
+        if (typeof init.body === 'string' && init.body) {
+            try {
+                parsed = JSON.parse(init.body);
+            } catch {
+                return json(400, { error: 'Request body is not valid JSON' });
+            }
+        }
+        this.requests.push({ method, path, body: isStorage || isCdn || init.body === undefined ? null : parsed });
+
+        const failure = this.takeFailure(method, path);
+        if (failure) {
+            if (failure.status === 'network') {
+                throw new TypeError('fetch failed: simulated network error');
+            }
+            const headers: Record<string, string> = failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {};
+            return json(failure.status, failure.body ?? { error: `Simulated ${failure.status} response` }, headers);
+        }
+
+        if (isStorage) {
+            return this.handleStorageUpload(init.body);
+        }
+        if (isCdn) {
+            return serveCdnFile(method, url);
+        }
+        if (this.apiKey !== undefined) {
+            const authorization = new Headers(init.headers).get('authorization');
+            if (authorization !== `Bearer ${this.apiKey}`) {
+                return json(401, { error: 'Invalid API key' });
+            }
+        }
+        if (!isRequestBody(parsed)) {
+            const field = isRecord(parsed) ? findMistypedField(parsed) : null;
+            return json(400, { error: field ? `Expected ${field} to be a ${BODY_FIELD_TYPES[field]}` : 'Request body must be a JSON object' });
+        }
+        return this.route(method, path, parsed, new URL(url).searchParams);
+    };
+
+    /**
+     * Makes the next matching request(s) fail.
+     * @param failure - The status to answer with and which requests it applies to.
+     */
+    public injectFailure(failure: SimulatedFailure): void {
+        this.failures.push({ ...failure, remaining: failure.times ?? 1 });
+    }
+
+    /**
+     * Looks up a job by its generation, variation or custom model id.
+     * @param id - The id returned when the job was started.
+     * @returns The job, or undefined when the simulator did not create it.
+     */
+    public getJob(id: string): SimulatedJob | undefined {
+        return this.jobs.get(id);
+    }
+
+    /**
+     * Looks up an init image by id.
+     * @param initImageId - The id returned by POST /init-image.
+     * @returns The upload, or undefined when the simulator did not create it.
+     */
+    public getUpload(initImageId: string): SimulatedUpload | undefined {
+        return this.uploads.get(initImageId);
+    }
+
+    /**
+     * Looks up a dataset by id.
+     * @param datasetId - The id returned by POST /datasets.
+     * @returns The dataset, or undefined when it does not exist (or was deleted).
+     */
+    public getDataset(datasetId: string): SimulatedDataset | undefined {
+        return this.datasets.get(datasetId);
+    }
+
+    /**
+     * Finishes a job right away, regardless of the schedule.
+     * @param id - The generation, variation or custom model id.
+     * @param outcome - The final status. Defaults to COMPLETE.
+     */
+    public settleJob(id: string, outcome: SimulatedOutcome = 'COMPLETE'): void {
+        const job = this.jobs.get(id);
+        if (!job) {
+            throw new Error(`Unknown simulated job ${id}.`);
+        }
+        job.status = outcome;
+    }
+
+    /**
+     * Returns the current API balance after all charges so far.
+     */
+    public getBalance(): { apiPaidTokens: number; apiSubscriptionTokens: number } {
+        return { ...this.balance };
+    }
+
+    private route(method: string, path: string, body: SimulatedRequestBody, query: URLSearchParams): Response {
+        if (method === 'POST' && path === '/generations') {
+            return this.createGeneration(body);
+        }
+        if (method === 'GET' && /^\/generations\/user\/[\w-]+$/.test(path)) {
+            return this.listGenerations(path.split('/')[3], query);
+        }
+        if (method === 'GET' && /^\/generations\/[\w-]+$/.test(path)) {
+            return this.getGeneration(path.split('/')[2]);
+        }
+        if (method === 'DELETE' && /^\/generations\/[\w-]+$/.test(path)) {
+            const id = path.split('/')[2];
+            if (this.jobs.get(id)?.kind !== 'generation') {
+                return json(404, { error: `Generation ${id} not found` });
+            }
+            this.jobs.delete(id);
+            return json(200, { delete_generations_by_pk: { id } });
+        }
+        if (method === 'POST' && VARIATION_RESPONSE_KEYS[path]) {
+            return this.createVariation(path, body);
+        }
+        if (method === 'GET' && /^\/variations\/[\w-]+$/.test(path)) {
+            return this.getVariation(path.split('/')[2]);
+        }
+        if (method === 'POST' && path === '/init-image') {
+            return this.createUpload(body);
+        }
+        if (method === 'DELETE' && /^\/init-image\/[\w-]+$/.test(path)) {
+            const id = path.split('/')[2];
+            if (this.uploads.get(id)?.datasetId || !this.uploads.delete(id)) {
+                return json(404, { error: `Init image ${id} not found` });
+            }
+            return json(200, { delete_init_image_by_pk: { id } });
+        }
+        if (method === 'GET' && path === '/me') {
+            return json(200, {
+                user_details: [{ user: { id: SIMULATED_USER_ID, username: 'simulator' }, ...this.balance, apiConcurrencySlots: 5 }],
+            });
+        }
+        if (method === 'POST' && path === '/datasets') {
+            if (!body.name) {
+                return json(400, { error: 'Expected name to be present' });
+            }
+            const dataset: SimulatedDataset = { id: this.createId(), name: body.name, description: body.description ?? null, createdAt: this.now() };
+            this.datasets.set(dataset.id, dataset);
+            return json(200, { insert_datasets_one: { id: dataset.id } });
+        }
+        if (/^\/datasets\/[\w-]+/.test(path)) {
+            return this.routeDataset(method, path, body);
+        }
+        if (method === 'POST' && path === '/models') {
+            return this.createTraining(body);
+        }
+        if (method === 'GET' && /^\/models\/user\/[\w-]+$/.test(path)) {
+            const userId = path.split('/')[3];
+            const models = userId === SIMULATED_USER_ID
+                ? Array.from(this.jobs.values()).filter(job => job.kind === 'training').reverse().map(job => this.toCustomModel(job))
+                : [];
+            return json(200, { custom_models: models });
+        }
+        if (method === 'GET' && /^\/models\/[\w-]+$/.test(path)) {
+            const job = this.jobs.get(path.split('/')[2]);
+            if (!job || job.kind !== 'training') {
+                return json(200, { custom_models_by_pk: null });
+            }
+            this.advance(job);
+            return json(200, { custom_models_by_pk: this.toCustomModel(job) });
+        }
+        if (method === 'DELETE' && /^\/models\/[\w-]+$/.test(path)) {
+            const id = path.split('/')[2];
+            if (this.jobs.get(id)?.kind !== 'training') {
+                return json(404, { error: `Custom model ${id} not found` });
+            }
+            this.jobs.delete(id);
+            return json(200, { delete_custom_models_by_pk: { id } });
+        }
+        if (method === 'GET' && path === '/platformModels') {
+            return json(200, { custom_models: this.platformModels });
+        }
+        return json(404, { error: `${method} ${path} is not simulated` });
+    }
+
+    private createGeneration(body: SimulatedRequestBody): Response {
+        if (!body.prompt) {
+            return json(400, { error: 'Expected prompt to be present' });
+        }
+        if (body.init_image_id && !this.uploads.get(body.init_image_id)?.uploaded) {
+            return json(400, { error: `init_image_id ${body.init_image_id} does not refer to an uploaded init image` });
+        }
+        const cost = (body.num_images ?? 4) * this.creditsPerImage;
+        if (!this.charge(cost)) {
+            return json(400, { error: 'You do not have enough API tokens for this request' });
+        }
+        const job = this.createJob('generation', '/generations', body, cost);
+        return json(200, { sdGenerationJob: { generationId: job.id, apiCreditCost: cost } });
+    }
+
+    private getGeneration(id: string): Response {
+        const job = this.jobs.get(id);
+        if (!job || job.kind !== 'generation') {
+            return json(200, { generations_by_pk: null });
+        }
+        this.advance(job);
+        return json(200, { generations_by_pk: this.toGenerationRecord(job) });
+    }
+
+    // Newest first, like Leonardo. Listing does not count as a status check, so it does not advance jobs.
+    private listGenerations(userId: string, query: URLSearchParams): Response {
+        if (userId !== SIMULATED_USER_ID) {
+            return json(200, { generations: [] });
+        }
+        const offset = Number(query.get('offset') ?? 0);
+        const limit = Number(query.get('limit') ?? 10);
+        const generations = Array.from(this.jobs.values())
+            .filter(job => job.kind === 'generation')
+            .reverse()
+            .slice(offset, offset + limit)
+            .map(job => this.toGenerationRecord(job));
+        return json(200, { generations });
+    }
+
+    private toGenerationRecord(job: SimulatedJob) {
+        const { params } = job;
+        const images = job.status === 'COMPLETE'
+            ? Array.from({ length: params.num_images ?? 4 }, (_, i) => ({
+                id: `${job.id}-image-${i + 1}`,
+                url: `${CDN_URL}/generations/${job.id}/${i + 1}.jpg`,
+                nsfw: false,
+            }))
+            : [];
+        return {
+            id: job.id,
+            status: job.status,
+            prompt: params.prompt,
+            negativePrompt: params.negative_prompt ?? null,
+            modelId: params.modelId ?? null,
+            imageHeight: params.height ?? 768,
+            imageWidth: params.width ?? 1024,
+            presetStyle: params.presetStyle ?? null,
+            alchemy: params.alchemy ?? null,
+            photoReal: params.photoReal ?? null,
+            contrast: params.contrast ?? null,
+            // Leonardo picks a seed when none is sent and reports it; this one is derived from the job's position.
+            seed: params.seed ?? ((job.sequence + 1) * 1000003) % 2147483647,
+            createdAt: new Date(job.createdAt).toISOString(),
+            generated_images: images,
+        };
+    }
+
+    private createVariation(endpoint: string, body: SimulatedRequestBody): Response {
+        if (!body.id && !body.initImageId && !body.generatedImageId && !body.variationId) {
+            return json(400, { error: 'Expected a source image id' });
+        }
+        if (!this.charge(this.creditsPerVariation)) {
+            return json(400, { error: 'You do not have enough API tokens for this request' });
+        }
+        const job = this.createJob('variation', endpoint, body, this.creditsPerVariation);
+        return json(200, { [VARIATION_RESPONSE_KEYS[endpoint]]: { id: job.id, apiCreditCost: job.apiCreditCost } });
+    }
+
+    private getVariation(id: string): Response {
+        const job = this.jobs.get(id);
+        if (!job || job.kind !== 'variation') {
+            return json(200, { generated_image_variation_generic: [] });
+        }
+        this.advance(job);
+        return json(200, {
+            generated_image_variation_generic: [{
+                id: job.id,
+                status: job.status,
+                url: job.status === 'COMPLETE' ? `${CDN_URL}/variations/${job.id}.png` : null,
+                transformType: job.endpoint.split('/').pop()!.toUpperCase(),
+                createdAt: new Date(this.now()).toISOString(),
+            }],
+        });
+    }
+
+    // Hands out a presigned storage POST, for an init image or (with a datasetId) a dataset image.
+    private createUpload(body: SimulatedRequestBody, datasetId?: string): Response {
+        const extension = (body.extension ?? '').toLowerCase();
+        if (!INIT_IMAGE_EXTENSIONS.includes(extension)) {
+            return json(400, { error: `Unsupported extension "${extension}"` });
+        }
+        const id = this.createId();
+        const key = datasetId ? `datasets/${datasetId}/${id}.${extension}` : `init-images/${id}.${extension}`;
+        this.uploads.set(id, {
+            initImageId: id,
+            datasetId,
+            extension,
+            uploaded: false,
+            size: null,
+            contentType: null,
+            expiresAt: this.now() + this.uploadUrlTtlMs,
+        });
+        return json(200, {
+            [datasetId ? 'uploadDatasetImage' : 'uploadInitImage']: {
+                id,
+                url: STORAGE_URL,
+                key,
+                fields: JSON.stringify({ key, 'Content-Type': `image/${extension === 'jpg' ? 'jpeg' : extension}`, Policy: 'simulated' }),
+            },
+        });
+    }
+
+    private routeDataset(method: string, path: string, body: SimulatedRequestBody): Response {
+        const [, , datasetId, ...rest] = path.split('/');
+        const dataset = this.datasets.get(datasetId);
+        const action = rest.join('/');
+        if (method === 'GET' && !action) {
+            if (!dataset) {
+                return json(200, { datasets_by_pk: null });
+            }
+            const images = Array.from(this.uploads.values())
+                .filter(upload => upload.datasetId === datasetId && upload.uploaded)
+                .map(upload => ({ id: upload.initImageId, url: `${CDN_URL}/datasets/${datasetId}/${upload.initImageId}.${upload.extension}` }));
+            return json(200, {
+                datasets_by_pk: { ...dataset, createdAt: new Date(dataset.createdAt).toISOString(), dataset_images: images },
+            });
+        }
+        if (!dataset) {
+            return json(404, { error: `Dataset ${datasetId} not found` });
+        }
+        if (method === 'DELETE' && !action) {
+            this.datasets.delete(datasetId);
+            Array.from(this.uploads.values())
+                .filter(upload => upload.datasetId === datasetId)
+                .forEach(upload => this.uploads.delete(upload.initImageId));
+            return json(200, { delete_datasets_by_pk: { id: datasetId } });
+        }
+        if (method === 'POST' && action === 'upload') {
+            return this.createUpload(body, datasetId);
+        }
+        if (method === 'POST' && action === 'upload/gen') {
+            const generation = Array.from(this.jobs.values()).find(job =>
+                job.kind === 'generation' && job.status === 'COMPLETE' && (body.generatedImageId ?? '').startsWith(`${job.id}-`));
+            if (!generation) {
+                return json(400, { error: `generatedImageId ${body.generatedImageId} does not refer to a generated image` });
+            }
+            const id = this.createId();
+            this.uploads.set(id, {
+                initImageId: id, datasetId, extension: 'jpg', uploaded: true, size: null, contentType: 'image/jpeg', expiresAt: this.now(),
+            });
+            return json(200, { uploadDatasetImageFromGen: { id } });
+        }
+        return json(404, { error: `${method} ${path} is not simulated` });
+    }
+
+    private createTraining(body: SimulatedRequestBody): Response {
+        if (!body.name || !body.instance_prompt) {
+            return json(400, { error: 'Expected name and instance_prompt to be present' });
+        }
+        const hasImages = Array.from(this.uploads.values()).some(upload => upload.datasetId === body.datasetId && upload.uploaded);
+        if (!this.datasets.has(body.datasetId) || !hasImages) {
+            return json(400, { error: `Dataset ${body.datasetId} does not exist or has no images` });
+        }
+        if (!this.charge(this.creditsPerTraining)) {
+            return json(400, { error: 'You do not have enough API tokens for this request' });
+        }
+        const job = this.createJob('training', '/models', body, this.creditsPerTraining);
+        return json(200, { sdTrainingJob: { customModelId: job.id, apiCreditCost: job.apiCreditCost } });
+    }
+
+    private toCustomModel(job: SimulatedJob) {
+        const { params } = job;
+        const resolution = params.resolution ?? 512;
+        return {
+            id: job.id,
+            name: params.name,
+            description: params.description ?? null,
+            status: job.status,
+            instancePrompt: params.instance_prompt,
+            modelWidth: resolution,
+            modelHeight: resolution,
+            sdVersion: params.sd_Version ?? 'v1_5',
+            type: params.modelType ?? 'GENERAL',
+            trainingStrength: params.strength ?? 'MEDIUM',
+            nsfw: params.nsfw ?? false,
+            public: false,
+            createdAt: new Date(job.createdAt).toISOString(),
+        };
+    }
+
+    // Checks the presigned POST like S3 would: a known key, an unexpired URL and a file as the last field.
+    private async handleStorageUpload(body: unknown): Promise<Response> {
+        if (!(body instanceof FormData)) {
+            return storageError(400, 'MalformedPOSTRequest', 'The body of your POST request is not well-formed multipart/form-data.');
+        }
+        const key = body.get('key');
+        const upload = typeof key === 'string' ? this.uploads.get(key.split('/').pop()!.replace(/\.\w+$/, '')) : undefined;
+        if (!upload) {
+            return storageError(403, 'AccessDenied', 'Invalid according to Policy: Policy Condition failed: ["eq", "$key"]');
+        }
+        if (this.now() > upload.expiresAt) {
+            return storageError(403, 'AccessDenied', 'Request has expired');
+        }
+        const entries = Array.from(body.keys());
+        const file = body.get('file');
+        if (!(file instanceof Blob) || entries[entries.length - 1] !== 'file') {
+            return storageError(400, 'InvalidArgument', 'POST requires exactly one file upload per request, as the last field.');
+        }
+        upload.uploaded = true;
+        upload.size = file.size;
+        upload.contentType = file.type || null;
+        return new Response(null, { status: 204, headers: { 'x-amz-request-id': 'SIMULATED' } });
+    }
+
+    private createJob(kind: SimulatedJobKind, endpoint: string, params: SimulatedRequestBody, apiCreditCost: number): SimulatedJob {
+        const job: SimulatedJob = {
+            id: this.createId(),
+            sequence: this.jobCount++,
+            kind,
+            endpoint,
+            params,
+            status: 'PENDING',
+            polls: 0,
+            apiCreditCost,
+            createdAt: this.now(),
+        };
+        this.jobs.set(job.id, job);
+        return job;
+    }
+
+    // Counts a status check and settles the job once it has been PENDING for `pendingPolls` checks.
+    private advance(job: SimulatedJob): void {
+        if (job.status !== 'PENDING') {
+            return;
+        }
+        job.polls++;
+        if (job.polls <= this.pendingPolls) {
+            return;
+        }
+        job.status = typeof this.outcomes === 'function'
+            ? this.outcomes(job)
+            : this.outcomes[job.sequence] ?? 'COMPLETE';
+    }
+
+    private charge(cost: number): boolean {
+        if (this.balance.apiSubscriptionTokens + this.balance.apiPaidTokens < cost) {
+            return false;
+        }
+        const fromSubscription = Math.min(this.balance.apiSubscriptionTokens, cost);
+        this.balance.apiSubscriptionTokens -= fromSubscription;
+        this.balance.apiPaidTokens -= cost - fromSubscription;
+        return true;
+    }
+
+    private takeFailure(method: string, path: string): SimulatedFailure | null {
+        const failure = this.failures.find(candidate =>
+            (!candidate.method || candidate.method === method)
+            && (candidate.path === undefined
+                || (typeof candidate.path === 'string' ? candidate.path === path : candidate.path.test(path))));
+        if (!failure) {
+            return null;
+        }
+        failure.remaining--;
+        this.failures = this.failures.filter(candidate => candidate.remaining > 0);
+        return failure;
+    }
+
+    // Deterministic UUID-shaped ids, so runs are reproducible and id checks that expect UUIDs still pass.
+    private createId(): string {
+        return `00000000-0000-4000-8000-${String(this.nextId++).padStart(12, '0')}`;
+    }
+}
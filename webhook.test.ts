@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LeonardoTimeoutError } from './leonardo';
+import { LeonardoWebhookReceiver, parseWebhookPayload } from './webhook';
+
+const SECRET = 'webhook-secret';
+
+// Leonardo's event envelope for a finished generation.
+const COMPLETION_PAYLOAD = {
+    type: 'image_generation.complete',
+    object: 'generation',
+    timestamp: 1717000000000,
+    api_version: 'v1',
+    data: {
+        object: {
+            id: 'gen-1',
+            prompt: 'A lighthouse at dusk',
+            status: 'COMPLETE',
+            images: [
+                { id: 'img-1', url: 'https://cdn.leonardo.ai/users/u/generations/gen-1/img-1.jpg' },
+                { id: 'img-2', url: 'https://cdn.leonardo.ai/users/u/generations/gen-1/img-2.jpg' },
+            ],
+        },
+    },
+};
+
+describe('parseWebhookPayload', () => {
+    it('reads the event envelope', () => {
+        const generation = parseWebhookPayload(COMPLETION_PAYLOAD)?.generations_by_pk;
+
+        expect(generation).toMatchObject({ id: 'gen-1', status: 'COMPLETE', prompt: 'A lighthouse at dusk' });
+        expect(generation?.generated_images?.map(image => image.id)).toEqual(['img-1', 'img-2']);
+    });
+
+    it('takes the status from the event type when the record has none', () => {
+        const result = parseWebhookPayload({ type: 'image_generation.failed', data: { object: { id: 'gen-2' } } });
+
+        expect(result?.generations_by_pk?.status).toBe('FAILED');
+    });
+
+    it('rejects payloads that do not describe a generation', () => {
+        expect(parseWebhookPayload(null)).toBeNull();
+        expect(parseWebhookPayload([COMPLETION_PAYLOAD])).toBeNull();
+        expect(parseWebhookPayload({ data: { object: { id: 42 } } })).toBeNull();
+    });
+
+    it('keeps the image details Leonardo sends', () => {
+        const payload = {
+            id: 'gen-4',
+            status: 'COMPLETE',
+            generated_images: [{ id: 'img-1', url: 'https://cdn/1.jpg', nsfw: true, seed: 1234, likeCount: 3, motionMP4URL: null, extra: 'x' }],
+        };
+
+        expect(parseWebhookPayload(payload)?.generations_by_pk?.generated_images).toEqual([
+            { id: 'img-1', url: 'https://cdn/1.jpg', nsfw: true, seed: 1234, likeCount: 3, motionMP4URL: null },
+        ]);
+    });
+
+    it('skips images without an id and url', () => {
+        const payload = { id: 'gen-3', status: 'COMPLETE', generated_images: [{ id: 'img-1' }, 'img-2', { id: 'img-3', url: 'https://cdn/3.jpg' }] };
+
+        expect(parseWebhookPayload(payload)?.generations_by_pk?.generated_images).toEqual([{ id: 'img-3', url: 'https://cdn/3.jpg' }]);
+    });
+});
+
+describe('LeonardoWebhookReceiver', () => {
+    let receiver: LeonardoWebhookReceiver;
+    let url: string;
+
+    beforeEach(async () => {
+        receiver = new LeonardoWebhookReceiver({ secret: SECRET });
+        const port = await receiver.listen(0, '127.0.0.1');
+        url = `http://127.0.0.1:${port}/leonardo/webhook`;
+    });
+
+    afterEach(() => receiver.close());
+
+    const post = (body: unknown, secret = SECRET) => fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${secret}` },
+        body: JSON.stringify(body),
+    });
+
+    it('resolves the waiter when the completion webhook arrives', async () => {
+        const waiting = receiver.waitForWebhook('gen-1', 5000);
+
+        const response = await post(COMPLETION_PAYLOAD);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ received: true });
+        const result = await waiting;
+        expect(result.generations_by_pk?.status).toBe('COMPLETE');
+        expect(result.generations_by_pk?.generated_images).toHaveLength(2);
+    });
+
+    it('keeps waiting after a PENDING callback until the generation completes', async () => {
+        const pending = { ...COMPLETION_PAYLOAD, type: 'image_generation.pending', data: { object: { ...COMPLETION_PAYLOAD.data.object, status: 'PENDING', images: [] } } };
+        expect((await post(pending)).status).toBe(200);
+
+        const waiting = receiver.waitForWebhook('gen-1', 5000);
+        const early = await Promise.race([waiting, new Promise(resolve => setTimeout(() => resolve('still waiting'), 20))]);
+        expect(early).toBe('still waiting');
+
+        expect((await post(COMPLETION_PAYLOAD)).status).toBe(200);
+        expect((await waiting).generations_by_pk?.status).toBe('COMPLETE');
+    });
+
+    it('rejects a callback with the wrong secret with 401', async () => {
+        const response = await post(COMPLETION_PAYLOAD, 'wrong-secret');
+
+        expect(response.status).toBe(401);
+        await expect(receiver.waitForWebhook('gen-1', 20)).rejects.toBeInstanceOf(LeonardoTimeoutError);
+    });
+
+    it('times out when no webhook arrives', async () => {
+        const error = await receiver.waitForWebhook('gen-unknown', 20).catch(err => err);
+
+        expect(error).toBeInstanceOf(LeonardoTimeoutError);
+        expect((error as LeonardoTimeoutError).generationId).toBe('gen-unknown');
+    });
+});
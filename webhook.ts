@@ -0,0 +1,323 @@
+// Webhook receiver for Leonardo AI generation callbacks (Node.js only).
+// Leonardo POSTs the finished generation to the callback URL configured on the API key,
+// sending the key's "webhook callback API key" back in the Authorization header.
+
+import { IncomingMessage, ServerResponse } from 'node:http';
+import {
+    LeonardoAPI,
+    GeneratedImage,
+    GenerationResult,
+    LeonardoAbortError,
+    LeonardoGenerationFailedError,
+    LeonardoTimeoutError,
+    WaitForGenerationOptions,
+    isRecord
+} from './leonardo';
+import { StandaloneServer, hasBearerToken, readBody, respondJson } from './httpServer';
+
+type Generation = NonNullable<GenerationResult['generations_by_pk']>;
+
+export interface WebhookReceiverOptions {
+    // The webhook callback API key configured in Leonardo. Requests without it are rejected with 401.
+    secret: string;
+    // Path the listener accepts callbacks on. Defaults to '/leonardo/webhook'.
+    path?: string;
+    // Maximum accepted request body size in bytes. Defaults to 1 MB.
+    maxBodyBytes?: number;
+    // How many delivered results are kept for waiters that register after the webhook arrived. Defaults to 500.
+    maxRecentResults?: number;
+    // Called for every accepted callback.
+    onGeneration?: (result: GenerationResult) => void;
+}
+
+export interface WebhookWaitOptions extends WaitForGenerationOptions {
+    // How long to wait for the webhook before falling back to polling. Defaults to 60s.
+    webhookTimeoutMs?: number;
+}
+
+interface PendingWaiter {
+    resolve: (result: GenerationResult) => void;
+    reject: (error: Error) => void;
+}
+
+const DEFAULT_PATH = '/leonardo/webhook';
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_MAX_RECENT_RESULTS = 500;
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 60 * 1000;
+
+const isGenerationStatus = (value: unknown): value is Generation['status'] =>
+    value === 'PENDING' || value === 'COMPLETE' || value === 'FAILED';
+
+// A record already in the shape of `generations_by_pk`, as sent by relays that forward getGenerationById results.
+const isGeneration = (value: unknown): value is Generation =>
+    isRecord(value) && typeof value.id === 'string' && isGenerationStatus(value.status);
+
+// Keeps the GeneratedImage fields of a payload image that have the expected type. Images without an id and url are dropped.
+const toGeneratedImage = (value: unknown): GeneratedImage | null => {
+    if (!isRecord(value) || typeof value.id !== 'string' || typeof value.url !== 'string') {
+        return null;
+    }
+    const { nsfw, seed, likeCount, motionMP4URL } = value;
+    const image: GeneratedImage = { id: value.id, url: value.url };
+    if (typeof nsfw === 'boolean') {
+        image.nsfw = nsfw;
+    }
+    if (typeof seed === 'number') {
+        image.seed = seed;
+    } else if (seed === null) {
+        image.seed = null;
+    }
+    if (typeof likeCount === 'number') {
+        image.likeCount = likeCount;
+    }
+    if (typeof motionMP4URL === 'string') {
+        image.motionMP4URL = motionMP4URL;
+    } else if (motionMP4URL === null) {
+        image.motionMP4URL = null;
+    }
+    return image;
+};
+
+const toGeneratedImages = (value: unknown): GeneratedImage[] =>
+    (Array.isArray(value) ? value : []).map(toGeneratedImage).filter((image): image is GeneratedImage => image !== null);
+
+const STATUS_BY_EVENT_SUFFIX: Record<string, Generation['status']> = {
+    complete: 'COMPLETE',
+    completed: 'COMPLETE',
+    failed: 'FAILED',
+    pending: 'PENDING',
+};
+
+/**
+ * Converts a webhook payload into the same shape returned by `getGenerationById`.
+ * Accepts Leonardo's event envelope (`{ type, data: { object } }`) as well as a bare generation record.
+ * @param payload - The parsed JSON body of the callback.
+ * @returns The generation result, or null when the payload does not describe a generation.
+ */
+export const parseWebhookPayload = (payload: unknown): GenerationResult | null => {
+    if (!isRecord(payload)) {
+        return null;
+    }
+    if (isGeneration(payload.generations_by_pk)) {
+        const generation = payload.generations_by_pk;
+        return { generations_by_pk: { ...generation, generated_images: toGeneratedImages(generation.generated_images) } };
+    }
+
+    const data = payload.data;
+    const record = isRecord(payload.generations_by_pk) ? payload.generations_by_pk
+        : isRecord(data) ? (isRecord(data.object) ? data.object : data) : payload;
+    if (typeof record.id !== 'string') {
+        return null;
+    }
+
+    const eventSuffix = typeof payload.type === 'string' ? payload.type.split('.').pop()!.toLowerCase() : '';
+    const status = isGenerationStatus(record.status) ? record.status : STATUS_BY_EVENT_SUFFIX[eventSuffix] ?? 'COMPLETE';
+
+    return {
+        generations_by_pk: {
+            id: record.id,
+            status,
+            prompt: typeof record.prompt === 'string' ? record.prompt : undefined,
+            generated_images: toGeneratedImages(record.generated_images ?? record.images),
+        },
+    };
+};
+
+/**
+ * Receives Leonardo webhooks and resolves promises waiting on the matching generation id.
+ * Use `listen()` to run a standalone HTTP listener, or mount `handler` in an existing Node server.
+ */
+export class LeonardoWebhookReceiver {
+    private readonly secret: string;
+    private readonly path: string;
+    private readonly maxBodyBytes: number;
+    private readonly maxRecentResults: number;
+    private readonly onGeneration?: (result: GenerationResult) => void;
+    private readonly pending = new Map<string, PendingWaiter[]>();
+    private readonly recent = new Map<string, GenerationResult>();
+    private readonly server: StandaloneServer;
+
+    constructor(options: WebhookReceiverOptions) {
+        if (!options.secret) {
+            throw new Error('A webhook secret is required.');
+        }
+        this.secret = options.secret;
+        this.path = options.path ?? DEFAULT_PATH;
+        this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+        this.maxRecentResults = options.maxRecentResults ?? DEFAULT_MAX_RECENT_RESULTS;
+        this.onGeneration = options.onGeneration;
+        this.server = new StandaloneServer('Webhook receiver', this.handler);
+    }
+
+    /**
+     * Request handler that can be passed to `http.createServer` or mounted in Express/Connect.
+     * Responds 404 for other paths, 405 for non-POST, 401 for a bad secret and 400 for unreadable payloads.
+     */
+    public readonly handler = (req: IncomingMessage, res: ServerResponse): void => {
+        const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+        if (pathname !== this.path) {
+            respondJson(res, 404, { error: 'Not found' });
+            return;
+        }
+        if (req.method !== 'POST') {
+            respondJson(res, 405, { error: 'Method not allowed' });
+            return;
+        }
+        if (!hasBearerToken(req.headers.authorization, this.secret)) {
+            respondJson(res, 401, { error: 'Invalid webhook secret' });
+            return;
+        }
+
+        readBody(req, this.maxBodyBytes)
+            .then(body => {
+                let payload: unknown;
+                try {
+                    payload = JSON.parse(body);
+                } catch {
+                    respondJson(res, 400, { error: 'Body is not valid JSON' });
+                    return;
+                }
+                const result = parseWebhookPayload(payload);
+                if (!result) {
+                    respondJson(res, 400, { error: 'Payload does not describe a generation' });
+                    return;
+                }
+                this.deliver(result);
+                respondJson(res, 200, { received: true });
+            })
+            .catch((error: Error) => {
+                respondJson(res, 413, { error: error.message });
+            });
+    };
+
+    /**
+     * Starts a standalone HTTP listener.
+     * @param port - The port to listen on. Pass 0 to pick a free port.
+     * @param host - The interface to bind to. Defaults to all interfaces.
+     * @returns A promise that resolves to the bound port.
+     */
+    public listen(port: number, host?: string): Promise<number> {
+        return this.server.listen(port, host);
+    }
+
+    /**
+     * Stops the standalone listener and rejects every pending waiter.
+     */
+    public close(): Promise<void> {
+        for (const [generationId, waiters] of this.pending) {
+            const error = new LeonardoAbortError('Webhook receiver was closed.', { endpoint: this.path, generationId });
+            waiters.forEach(waiter => waiter.reject(error));
+        }
+        this.pending.clear();
+        return this.server.close();
+    }
+
+    /**
+     * Waits for the webhook of a generation.
+     * Resolves immediately if the callback already arrived.
+     * @param generationId - The generation to wait for.
+     * @param timeoutMs - How long to wait before rejecting with LeonardoTimeoutError. Defaults to 60s.
+     * @param signal - Cancels the wait with LeonardoAbortError.
+     * @returns A promise that resolves to the completed generation result.
+     */
+    public waitForWebhook(generationId: string, timeoutMs: number = DEFAULT_WEBHOOK_TIMEOUT_MS, signal?: AbortSignal): Promise<GenerationResult> {
+        const known = this.recent.get(generationId);
+        if (known) {
+            return this.settle(known);
+        }
+
+        return new Promise<GenerationResult>((resolve, reject) => {
+            const cleanup = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                const waiters = (this.pending.get(generationId) ?? []).filter(w => w !== waiter);
+                if (waiters.length > 0) {
+                    this.pending.set(generationId, waiters);
+                } else {
+                    this.pending.delete(generationId);
+                }
+            };
+            const waiter: PendingWaiter = {
+                resolve: result => { cleanup(); resolve(result); },
+                reject: error => { cleanup(); reject(error); },
+            };
+            const onAbort = () => waiter.reject(
+                new LeonardoAbortError(`Waiting for the webhook of generation ${generationId} was aborted.`, { endpoint: this.path, generationId })
+            );
+            const timer = setTimeout(() => waiter.reject(
+                new LeonardoTimeoutError(`No webhook for generation ${generationId} within ${Math.round(timeoutMs / 1000)}s.`, { endpoint: this.path, generationId })
+            ), timeoutMs);
+
+            if (signal?.aborted) {
+                onAbort();
+                return;
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.pending.set(generationId, [...(this.pending.get(generationId) ?? []), waiter]);
+        }).then(result => this.settle(result));
+    }
+
+    /**
+     * Waits for a generation via webhook, falling back to polling when no callback arrives in time.
+     * A webhook that arrives while polling still wins and stops the poller.
+     * @param api - The client used for the polling fallback.
+     * @param generationId - The generation to wait for.
+     * @param options - `webhookTimeoutMs` plus the usual waitForGeneration options for the fallback.
+     * @returns A promise that resolves to the completed generation result.
+     */
+    public async waitForGeneration(api: LeonardoAPI, generationId: string, options: WebhookWaitOptions = {}): Promise<GenerationResult> {
+        const { webhookTimeoutMs = DEFAULT_WEBHOOK_TIMEOUT_MS, ...pollOptions } = options;
+        try {
+            return await this.waitForWebhook(generationId, webhookTimeoutMs, options.signal);
+        } catch (error) {
+            if (!(error instanceof LeonardoTimeoutError)) {
+                throw error;
+            }
+        }
+
+        const controller = new AbortController();
+        const forwardAbort = () => controller.abort();
+        options.signal?.addEventListener('abort', forwardAbort, { once: true });
+        // A late webhook settles the race; timeout/abort of this listener are left to the poller.
+        const lateWebhook = this.waitForWebhook(generationId, pollOptions.timeoutMs ?? 5 * 60 * 1000, controller.signal);
+        lateWebhook.catch(() => undefined);
+
+        try {
+            return await Promise.race([
+                api.waitForGeneration(generationId, { ...pollOptions, signal: controller.signal }),
+                lateWebhook,
+            ]);
+        } finally {
+            options.signal?.removeEventListener('abort', forwardAbort);
+            controller.abort();
+        }
+    }
+
+    private deliver(result: GenerationResult): void {
+        const generationId = result.generations_by_pk!.id;
+        this.onGeneration?.(result);
+
+        // PENDING callbacks are informational; only terminal states are kept for later waiters and settle current ones.
+        if (result.generations_by_pk!.status === 'PENDING') {
+            return;
+        }
+        this.recent.set(generationId, result);
+        if (this.recent.size > this.maxRecentResults) {
+            this.recent.delete(this.recent.keys().next().value!);
+        }
+        [...(this.pending.get(generationId) ?? [])].forEach(waiter => waiter.resolve(result));
+    }
+
+    // Turns a FAILED result into the same error waitForGeneration would throw.
+    private settle(result: GenerationResult): Promise<GenerationResult> {
+        const generation = result.generations_by_pk!;
+        if (generation.status === 'FAILED') {
+            return Promise.reject(new LeonardoGenerationFailedError(`Generation ${generation.id} failed.`, {
+                endpoint: this.path,
+                generationId: generation.id,
+                body: result,
+            }));
+        }
+        return Promise.resolve(result);
+    }
+}